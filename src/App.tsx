@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useCallback } from 'react';
 import { Lobby } from './components/Lobby';
 import { Match } from './components/Match';
 import { MatchSummary } from './components/MatchSummary';
@@ -9,22 +9,61 @@ import { useBetFeedback } from './components/utils/useBetFeedback';
 import { useBetWinAnimation } from './components/utils/useBetWinAnimation';
 import { MobileOptimizations, mobileStyles, useMobilePerformance } from './components/MobileOptimizations';
 import { QuickChatSystem } from './components/QuickChatSystem';
+import { SettlementNotifications } from './components/SettlementNotifications';
+import { IncidentEventType, MatchEngineState, getMatchUpdate, simulateMatch } from './components/utils/matchEngine';
+import { LobbyMatchEngine, leaveMatch, useLobbyMatches } from './components/utils/useLobbyMatches';
+import { useBetSettlement } from './components/utils/useBetSettlement';
+import { BET_RESULT_LABELS, BetResult, getSettlementPayout, isStakeReturned, isWinningResult } from './components/utils/betSettlement';
+import { settleActionEvent } from './components/utils/actionMarkets';
+import { loadGameState } from './components/utils/gameStorage';
+import { useSaveGameState } from './components/utils/useSaveGameState';
+import { LedgerEntry, createLedgerEntry, describeBet, postLedgerEntries } from './components/utils/walletLedger';
+import { combineOdds } from './components/utils/pricing';
+import { SystemBetType, createSystemBet, getSystemBet } from './components/utils/systemBets';
+import { AutoCashOutRule, CashOutRecord, applyCashOut } from './components/utils/cashOut';
+import { MarketId, MarketOutcome, MatchScore, isSameSelection } from './components/utils/matchMarkets';
+import { PlayerId } from './components/utils/squads';
+import { ExpectedGoals } from './components/utils/teamRatings';
+import { CupCompetition, isCupTie, playCupRound, recordCupResult } from './components/utils/cupCompetition';
+import { LeagueSeason, createSeason, isLeagueFixture, recordLeagueResult } from './components/utils/leagueSeason';
+
+// One selection of an accumulator; `result` is set once its match is over
+export interface BetLeg {
+  matchId: string;
+  homeTeam: string;
+  awayTeam: string;
+  marketId?: MarketId;
+  outcome: MarketOutcome;
+  line?: number;
+  odds: number;
+  result?: BetResult;
+}
 
 export interface Bet {
   id: string;
-  type: 'full-match' | 'action' | 'lobby';
+  type: 'full-match' | 'action' | 'lobby' | 'accumulator' | 'system' | 'outright';
+  marketId?: MarketId; // For full-match and lobby bets; the 1X2 when missing
   outcome: string;
+  line?: number; // For markets with lines, e.g. 2.5 for over/under 2.5 goals
   odds: number;
   amount: number;
   timestamp: number;
   powerUpApplied?: boolean;
   resolved?: boolean;
   won?: boolean;
+  result?: BetResult; // Set when the bet settles; missing for bets cashed out in full
   payout?: number;
+  cashedOut?: boolean; // Whole stake cashed out before the bet settled
+  cashOuts?: CashOutRecord[]; // Full and partial cash-outs, oldest first
+  autoCashOut?: AutoCashOutRule[];
   matchId?: string;
   homeTeam?: string;
   awayTeam?: string;
   eventId?: string; // For action bets, links to the ActionEvent
+  cupId?: string; // For outright bets, the cup they're on
+  legs?: BetLeg[]; // For accumulators, the combined selections
+  parentId?: string; // For system bet lines, links to the system bet
+  systemType?: SystemBetType;
 }
 
 export interface BetslipSelection {
@@ -32,7 +71,9 @@ export interface BetslipSelection {
   matchId: string;
   homeTeam: string;
   awayTeam: string;
-  outcome: 'home' | 'draw' | 'away';
+  marketId?: MarketId;
+  outcome: MarketOutcome;
+  line?: number;
   odds: number;
   outcomeLabel: string;
   amount: number; // Add stake amount to avoid race conditions
@@ -47,16 +88,23 @@ export interface MatchData {
   awayOdds: number;
   homeScore: number;
   awayScore: number;
+  halfTimeScore?: { homeScore: number; awayScore: number } | null;
+  goalscorers?: (PlayerId | null)[]; // Recorded for matches played on the engine
+  expectedGoals?: ExpectedGoals; // What the fixture was priced from, when not the clubs' base ratings
+  knockout?: boolean; // Cup ties: level after 90 minutes goes to extra time and penalties
+  regularTimeScore?: MatchScore | null; // Set once a knockout tie goes to extra time
+  penaltyScore?: { homeScore: number; awayScore: number } | null;
+  winner?: 'home' | 'away' | null; // Knockout ties, once decided
   status: 'not-started' | 'live' | 'finished';
   timeElapsed: number;
   playerCount: number;
-  startTime?: string;
+  startTime?: number; // Kick-off timestamp, for matches with a fixed kick-off
 }
 
 export interface ActionEvent {
   id: string;
   time: number;
-  type: 'goal' | 'action' | 'commentary';
+  type: 'goal' | 'action' | 'commentary' | IncidentEventType;
   description: string;
   bettingOptions?: {
     label: string;
@@ -66,6 +114,11 @@ export interface ActionEvent {
   resolved?: boolean;
   result?: string;
   scoringTeam?: 'home' | 'away';
+  team?: 'home' | 'away'; // For incidents, the side it happened to
+  half?: 'home-half' | 'away-half'; // For fouls, where on the pitch
+  playerId?: PlayerId; // For goals the scorer, for incidents the player involved
+  assistId?: PlayerId;
+  marketId?: string; // For action events, the action market being offered
 }
 
 export interface PowerUp {
@@ -76,8 +129,14 @@ export interface PowerUp {
 
 export interface GameState {
   phase: 'lobby' | 'match' | 'match-summary';
-  wallet: number;
+  wallet: number; // Always the ledger balance - only changed by posting ledger entries
+  ledger: LedgerEntry[];
   currentMatch: MatchData | null;
+  matchEngine: MatchEngineState | null;
+  lobbyMatches: MatchData[];
+  lobbyEngines: Record<string, LobbyMatchEngine>; // Engines of the live lobby matches, keyed by match id
+  cup: CupCompetition | null; // Carries on from match to match until the final is played
+  season: LeagueSeason;
   activeBets: Bet[];
   matchEvents: ActionEvent[];
   powerUp: PowerUp | null;
@@ -86,6 +145,7 @@ export interface GameState {
   classicMode: boolean;
   betslipSelections: BetslipSelection[];
   betslipStake: number;
+  betslipMode: 'singles' | 'accumulator' | 'system';
   completedMatch?: MatchData;
   completedBets?: Bet[];
   settings: {
@@ -93,10 +153,18 @@ export interface GameState {
   };
 }
 
+export type GameStateUpdate = Partial<GameState> | ((prev: GameState) => Partial<GameState>);
+
 const initialGameState: GameState = {
   phase: 'lobby',
   wallet: 10000,
+  ledger: [createLedgerEntry('opening-balance', 10000, 'Welcome balance')],
   currentMatch: null,
+  matchEngine: null,
+  lobbyMatches: [],
+  lobbyEngines: {},
+  cup: null,
+  season: createSeason(),
   activeBets: [],
   matchEvents: [],
   powerUp: null,
@@ -105,28 +173,32 @@ const initialGameState: GameState = {
   classicMode: false,
   betslipSelections: [],
   betslipStake: 100,
+  betslipMode: 'singles',
   settings: {
     betAnimations: false, // Default: animations OFF
   },
 };
 
 export default function App() {
-  const [gameState, setGameState] = useState<GameState>(initialGameState);
+  // Pick up where the player left off, including a match in progress
+  const [gameState, setGameState] = useState<GameState>(() => loadGameState(initialGameState));
   const { animations, triggerBetFeedback, removeBetFeedback } = useBetFeedback();
   const { isVisible: isWinAnimationVisible, winDetails, triggerWinAnimation, hideWinAnimation } = useBetWinAnimation();
   
   // Mobile performance optimizations
   useMobilePerformance();
 
-  const updateGameState = useCallback((updates: Partial<GameState>) => {
-    setGameState(prev => ({ ...prev, ...updates }));
+  useSaveGameState(gameState);
+
+  const updateGameState = useCallback((updates: GameStateUpdate) => {
+    setGameState(prev => ({ ...prev, ...(typeof updates === 'function' ? updates(prev) : updates) }));
   }, []);
 
   const addBet = useCallback((bet: Bet) => {
     setGameState(prev => ({
       ...prev,
       activeBets: [...prev.activeBets, bet],
-      wallet: prev.wallet - bet.amount,
+      ...postLedgerEntries(prev.ledger, [createLedgerEntry('stake', bet.amount, describeBet(bet), bet.id)]),
       ...(bet.type === 'full-match' 
         ? { lastFullMatchBetAmount: bet.amount }
         : { lastActionBetAmount: bet.amount }
@@ -134,13 +206,16 @@ export default function App() {
     }));
   }, []);
 
-  const resolveBet = useCallback((betId: string, won: boolean, payout: number = 0) => {
+  // Settle a bet. Bets that won nothing but hand some stake back (void, push, half lost) post it as a refund
+  const resolveBet = useCallback((betId: string, result: BetResult, payout: number = 0) => {
     setGameState(prev => {
       // Find the bet being resolved to check if it's an action bet and if it won
       const targetBet = prev.activeBets.find(bet => bet.id === betId);
+      if (!targetBet || targetBet.resolved) return prev;
+      const won = isWinningResult(result);
       
       // Trigger win animation for winning action bets
-      if (targetBet && won && targetBet.type === 'action' && payout > 0) {
+      if (won && targetBet.type === 'action' && payout > 0) {
         triggerWinAnimation({
           betId,
           winAmount: Math.round(payout),
@@ -148,18 +223,39 @@ export default function App() {
         });
       }
 
+      // Anything paid above the bet's odds is the power-up's doing
+      const entries: LedgerEntry[] = [];
+      if (won && payout > 0) {
+        const basePayout = Math.min(payout, targetBet.amount * targetBet.odds);
+        entries.push(createLedgerEntry('payout', basePayout, describeBet(targetBet), betId));
+        if (payout > basePayout) {
+          entries.push(createLedgerEntry('power-up-bonus', payout - basePayout, `2x power-up • ${describeBet(targetBet)}`, betId));
+        }
+      } else if (isStakeReturned(result) && payout > 0) {
+        entries.push(createLedgerEntry('refund', payout, `${BET_RESULT_LABELS[result]} • ${describeBet(targetBet)}`, betId));
+      }
+
       return {
         ...prev,
         activeBets: prev.activeBets.map(bet => 
           bet.id === betId 
-            ? { ...bet, resolved: true, won, payout }
+            ? { ...bet, resolved: true, won, result, payout }
             : bet
         ),
-        wallet: won ? prev.wallet + payout : prev.wallet
+        ...postLedgerEntries(prev.ledger, entries)
       };
     });
   }, [triggerWinAnimation]);
 
+  // Take some or all of a bet's open stake off the table; the bet settles once nothing is left
+  const cashOutBet = useCallback((betId: string, cashOut: CashOutRecord) => {
+    setGameState(prev => ({ ...prev, ...applyCashOut(prev, betId, cashOut) }));
+  }, []);
+
+  // Lobby matches keep playing and settling bets whatever screen is showing
+  useLobbyMatches(updateGameState);
+  const { notifications, notify, dismissNotification, settleMatchBets } = useBetSettlement(gameState, updateGameState, resolveBet);
+
   const awardPowerUp = useCallback(() => {
     setGameState(prev => {
       if (prev.classicMode) return prev;
@@ -188,11 +284,13 @@ export default function App() {
 
   const addToBetslip = useCallback((selection: BetslipSelection) => {
     setGameState(prev => {
-      // Remove existing selection for same match if exists
-      const filteredSelections = prev.betslipSelections.filter(s => s.matchId !== selection.matchId);
+      // Picking the same outcome again takes it off the slip
+      const existing = prev.betslipSelections.find(s => s.matchId === selection.matchId && isSameSelection(s, selection));
       return {
         ...prev,
-        betslipSelections: [...filteredSelections, selection]
+        betslipSelections: existing
+          ? prev.betslipSelections.filter(s => s.id !== existing.id)
+          : [...prev.betslipSelections, selection]
       };
     });
   }, []);
@@ -211,11 +309,90 @@ export default function App() {
     }));
   }, []);
 
-  const placeBetslipBets = useCallback(() => {
+  // Back a club to win the cup at the betslip stake
+  const placeOutrightBet = useCallback((team: string, odds: number) => {
+    setGameState(prev => {
+      if (!prev.cup || prev.betslipStake > prev.wallet) return prev;
+
+      const bet: Bet = {
+        id: Date.now().toString() + Math.random(),
+        type: 'outright',
+        outcome: team,
+        odds,
+        amount: prev.betslipStake,
+        timestamp: Date.now(),
+        cupId: prev.cup.id
+      };
+
+      return {
+        ...prev,
+        activeBets: [...prev.activeBets, bet],
+        ...postLedgerEntries(prev.ledger, [createLedgerEntry('stake', bet.amount, describeBet(bet), bet.id)])
+      };
+    });
+  }, []);
+
+  const placeBetslipBets = useCallback((systemType?: SystemBetType) => {
     let success = false;
     
     setGameState(prev => {
-      const { betslipSelections, wallet } = prev;
+      const { betslipSelections, betslipMode, betslipStake, wallet } = prev;
+      const legs: BetLeg[] = betslipSelections.map(({ matchId, homeTeam, awayTeam, marketId, outcome, line, odds }) => ({
+        matchId, homeTeam, awayTeam, marketId, outcome, line, odds
+      }));
+
+      if (betslipMode === 'system') {
+        // Every line is its own accumulator, staked at the betslip stake
+        const matchIds = new Set(betslipSelections.map(selection => selection.matchId));
+        if (!systemType || matchIds.size !== betslipSelections.length || getSystemBet(systemType).selections !== betslipSelections.length) {
+          success = false;
+          return prev;
+        }
+
+        const { systemBet, lineBets } = createSystemBet(legs, systemType, betslipStake);
+        if (systemBet.amount > wallet) {
+          success = false;
+          return prev;
+        }
+
+        success = true;
+        return {
+          ...prev,
+          activeBets: [...prev.activeBets, systemBet, ...lineBets],
+          ...postLedgerEntries(prev.ledger, lineBets.map(bet =>
+            createLedgerEntry('stake', bet.amount, `${systemBet.outcome} • ${describeBet(bet)}`, bet.id)
+          )),
+          betslipSelections: []
+        };
+      }
+
+      if (betslipMode === 'accumulator') {
+        // Legs must come from different matches
+        const matchIds = new Set(betslipSelections.map(selection => selection.matchId));
+        if (betslipSelections.length < 2 || matchIds.size !== betslipSelections.length || betslipStake > wallet) {
+          success = false;
+          return prev;
+        }
+
+        const accumulator: Bet = {
+          id: Date.now().toString() + Math.random(),
+          type: 'accumulator',
+          outcome: `${betslipSelections.length}-fold accumulator`,
+          odds: combineOdds(betslipSelections.map(selection => selection.odds)),
+          amount: betslipStake,
+          timestamp: Date.now(),
+          legs
+        };
+
+        success = true;
+        return {
+          ...prev,
+          activeBets: [...prev.activeBets, accumulator],
+          ...postLedgerEntries(prev.ledger, [createLedgerEntry('stake', accumulator.amount, describeBet(accumulator), accumulator.id)]),
+          betslipSelections: []
+        };
+      }
+
       const totalCost = betslipSelections.reduce((sum, selection) => sum + selection.amount, 0);
       
       if (totalCost > wallet) {
@@ -226,7 +403,9 @@ export default function App() {
       const newBets: Bet[] = betslipSelections.map(selection => ({
         id: Date.now().toString() + Math.random(),
         type: 'lobby' as const,
+        marketId: selection.marketId,
         outcome: selection.outcome,
+        line: selection.line,
         odds: selection.odds,
         amount: selection.amount, // Use amount from selection
         timestamp: Date.now(),
@@ -239,7 +418,7 @@ export default function App() {
       return {
         ...prev,
         activeBets: [...prev.activeBets, ...newBets],
-        wallet: prev.wallet - totalCost,
+        ...postLedgerEntries(prev.ledger, newBets.map(bet => createLedgerEntry('stake', bet.amount, describeBet(bet), bet.id))),
         betslipSelections: []
       };
     });
@@ -248,26 +427,94 @@ export default function App() {
   }, []);
 
   const showMatchSummary = useCallback(() => {
-    setGameState(prev => ({
-      ...prev,
-      completedMatch: prev.currentMatch,
-      completedBets: prev.activeBets,
-      phase: 'match-summary'
-    }));
+    setGameState(prev => {
+      // Lobby bets on other matches are still open and belong to their own matches
+      const isOnCurrentMatch = (bet: Bet) =>
+        bet.legs ? bet.legs.some(leg => leg.matchId === prev.currentMatch?.id) :
+        bet.type === 'lobby' ? bet.matchId === prev.currentMatch?.id :
+        bet.type !== 'system' && bet.type !== 'outright';
+
+      // A system bet comes along with all of its lines when any line is on this match
+      const systemIds = new Set(prev.activeBets.filter(isOnCurrentMatch).map(bet => bet.parentId).filter(Boolean));
+
+      return {
+        ...prev,
+        completedMatch: prev.currentMatch,
+        completedBets: prev.activeBets.filter(bet =>
+          (isOnCurrentMatch(bet) && !bet.parentId) || systemIds.has(bet.id) || systemIds.has(bet.parentId)
+        ),
+        phase: 'match-summary'
+      };
+    });
   }, []);
 
   const resetForNewMatch = useCallback(() => {
+    const { currentMatch, matchEngine, matchEvents, activeBets, cup, season } = gameState;
+    const leftEarly = !!currentMatch && !!matchEngine && currentMatch.status !== 'finished';
+    // A lobby match plays on without the user; cup ties and league fixtures can't
+    const backToLobby = leftEarly && !isCupTie(cup, currentMatch.id) && !isLeagueFixture(season, currentMatch.id);
+
+    // The engine is seeded, so this is how the rest of the match goes whether or not the lobby plays it on
+    const playedOut = leftEarly ? simulateMatch(matchEngine) : null;
+    // A cup tie or league fixture is decided once, so one left early goes into the bracket or table as it plays out
+    const finalMatch = leftEarly && playedOut ? { ...currentMatch, ...getMatchUpdate(playedOut.state) } : currentMatch;
+
+    if (leftEarly && playedOut && finalMatch) {
+      const feed = [...matchEvents, ...playedOut.events];
+
+      // An action offer still taking bets hasn't seen any play yet, so only those are void
+      activeBets
+        .filter(bet => bet.type === 'action' && !bet.resolved)
+        .forEach(bet => {
+          const event = feed.find(({ id }) => id === bet.eventId);
+          const settlement = event && event.time < matchEngine.tick ? settleActionEvent(event, feed, playedOut.state.tick, true) : null;
+          const result: BetResult = !settlement || settlement.status === 'void' ? 'void' :
+            bet.outcome === settlement.outcome ? 'won' : 'lost';
+          const payout = getSettlementPayout(bet, result);
+
+          resolveBet(bet.id, result, payout);
+          if (result === 'void') {
+            notify({
+              id: bet.id,
+              title: 'Bet void',
+              description: `${currentMatch.homeTeam} v ${currentMatch.awayTeam} • stake returned`,
+              payout,
+              result
+            });
+          }
+        });
+
+      // In-play bets on a match handed back to the lobby settle there at full time
+      if (!backToLobby) {
+        settleMatchBets(finalMatch, true);
+      }
+    }
+
     setGameState(prev => ({
       ...prev,
+      ...(backToLobby ? leaveMatch(prev, Date.now()) : {}),
       currentMatch: null,
-      activeBets: [],
+      matchEngine: null,
+      // Keep open lobby, accumulator, system and outright bets so they settle when their matches finish,
+      // along with in-play bets on a match handed back to the lobby
+      activeBets: prev.activeBets.filter(bet =>
+        ((bet.type === 'lobby' || bet.type === 'accumulator' || bet.type === 'system' || bet.type === 'outright') && !bet.resolved) ||
+        (backToLobby && bet.type === 'full-match' && bet.matchId === prev.currentMatch?.id && !bet.resolved) ||
+        prev.activeBets.some(parent => parent.id === bet.parentId && !parent.resolved)
+      ),
+      // A decided cup tie goes into the bracket, and the rest of its round is played out
+      cup: prev.cup && finalMatch?.status === 'finished' && isCupTie(prev.cup, finalMatch.id)
+        ? playCupRound(recordCupResult(prev.cup, finalMatch))
+        : prev.cup,
+      // The user may watch more of the matchday, so the rest of it is only played when they ask
+      season: finalMatch ? recordLeagueResult(prev.season, finalMatch) : prev.season,
       matchEvents: [],
       powerUp: null,
       completedMatch: undefined,
       completedBets: undefined,
       phase: 'lobby'
     }));
-  }, []);
+  }, [gameState, resolveBet, notify, settleMatchBets]);
 
   return (
     <div className="dark min-h-screen bg-background mobile-optimized">
@@ -281,6 +528,8 @@ export default function App() {
         <Lobby 
           gameState={gameState}
           updateGameState={updateGameState}
+          addToBetslip={addToBetslip}
+          placeOutrightBet={placeOutrightBet}
         />
       ) : gameState.phase === 'match-summary' ? (
         <MatchSummary
@@ -293,6 +542,7 @@ export default function App() {
           updateGameState={updateGameState}
           addBet={addBet}
           resolveBet={resolveBet}
+          cashOutBet={cashOutBet}
           awardPowerUp={awardPowerUp}
           usePowerUp={usePowerUp}
           showMatchSummary={showMatchSummary}
@@ -301,7 +551,7 @@ export default function App() {
         />
       )}
       
-      {gameState.phase === 'match' && gameState.betslipSelections.length > 0 && (
+      {(gameState.phase === 'lobby' || gameState.phase === 'match') && gameState.betslipSelections.length > 0 && (
         <BetslipDrawer
           gameState={gameState}
           updateGameState={updateGameState}
@@ -325,6 +575,12 @@ export default function App() {
         />
       ))}
       
+      {/* Settled lobby bets, shown whichever screen is active */}
+      <SettlementNotifications
+        notifications={notifications}
+        onDismiss={dismissNotification}
+      />
+      
       {/* Action bet win animation */}
       <BetWinAnimation
         isVisible={isWinAnimationVisible}
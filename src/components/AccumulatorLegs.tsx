@@ -0,0 +1,40 @@
+import React from 'react';
+import { Check, X, Minus, Clock } from 'lucide-react';
+import { BetLeg } from '../App';
+import { getSelectionLabel } from './utils/matchMarkets';
+
+interface AccumulatorLegsProps {
+  legs: BetLeg[];
+}
+
+export function AccumulatorLegs({ legs }: AccumulatorLegsProps) {
+  const getResultIcon = (result: BetLeg['result']) => {
+    switch (result) {
+      case 'won':
+      case 'half-won':
+        return <Check size={10} className="text-green-400" />;
+      case 'lost':
+        return <X size={10} className="text-red-400" />;
+      case 'void':
+      case 'push':
+      case 'half-lost':
+        return <Minus size={10} className="text-gray-400" />;
+      default:
+        return <Clock size={10} className="text-blue-300" />;
+    }
+  };
+
+  return (
+    <div className="mt-1 space-y-0.5">
+      {legs.map(leg => (
+        <div key={leg.matchId} className="flex items-center gap-1.5 text-xs">
+          {getResultIcon(leg.result)}
+          <span className="text-gray-300 truncate">
+            {getSelectionLabel(leg, leg)} <span className="text-gray-500">({leg.homeTeam} v {leg.awayTeam})</span>
+          </span>
+          <span className="text-gray-400 ml-auto">@{leg.odds}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ interface ActionBettingDrawerProps {
   onClose: () => void;
   onPlaceBet: (outcome: string, odds: number, amount: number) => void;
   timeLeft: number;
+  duration?: number; // Seconds the betting window was opened for
   gameState: GameState;
 }
 
@@ -23,6 +24,7 @@ export function ActionBettingModal({
   onClose, 
   onPlaceBet, 
   timeLeft, 
+  duration = 15,
   gameState 
 }: ActionBettingDrawerProps) {
   const [selectedOption, setSelectedOption] = useState<{ label: string; odds: number; outcome: string } | null>(null);
@@ -75,7 +77,7 @@ export function ActionBettingModal({
     onClose();
   };
 
-  const progressPercentage = (timeLeft / 15) * 100;
+  const progressPercentage = (timeLeft / duration) * 100;
 
   return (
     <Drawer open={isOpen} onOpenChange={onClose}>
@@ -2,15 +2,17 @@ import React, { useState } from 'react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Badge } from './ui/badge';
-import { X, Trash2, TrendingUp, DollarSign } from 'lucide-react';
+import { X, Trash2, TrendingUp, DollarSign, Layers, AlertTriangle } from 'lucide-react';
 import { GameState, BetslipSelection } from '../App';
+import { combineOdds } from './utils/pricing';
+import { SystemBetType, expandSystemBet, getAvailableSystemBets } from './utils/systemBets';
 
 interface BetslipDrawerProps {
   gameState: GameState;
   updateGameState: (updates: Partial<GameState>) => void;
   removeFromBetslip: (selectionId: string) => void;
   clearBetslip: () => void;
-  placeBetslipBets: () => boolean;
+  placeBetslipBets: (systemType?: SystemBetType) => boolean;
   triggerBetFeedback: (startElement: HTMLElement | null, endElement: HTMLElement | null, betAmount: number) => void;
 }
 
@@ -34,20 +36,47 @@ export function BetslipDrawer({
   triggerBetFeedback 
 }: BetslipDrawerProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [selectedSystemType, setSelectedSystemType] = useState<SystemBetType | null>(null);
   
-  const { betslipSelections, betslipStake, wallet } = gameState;
-  const totalCost = betslipSelections.reduce((total, selection) => total + selection.amount, 0);
-  const totalPotentialWin = betslipSelections.reduce((total, selection) => 
-    total + (selection.amount * selection.odds), 0
-  );
+  const { betslipSelections, betslipStake, betslipMode, wallet } = gameState;
+  const isAccumulator = betslipMode === 'accumulator';
+  const isSystem = betslipMode === 'system';
+
+  // Accumulator and system legs must come from different matches
+  const accumulatorOdds = combineOdds(betslipSelections.map(selection => selection.odds));
+  const hasSameMatchLegs = new Set(betslipSelections.map(selection => selection.matchId)).size !== betslipSelections.length;
+  const canCombine = betslipSelections.length >= 2 && !hasSameMatchLegs;
+
+  // System bets on offer for this many selections; fall back to the first one
+  const availableSystemBets = getAvailableSystemBets(betslipSelections.length);
+  const systemBet = availableSystemBets.find(definition => definition.type === selectedSystemType) ?? availableSystemBets[0];
+  const systemLines = systemBet && !hasSameMatchLegs ? expandSystemBet(betslipSelections, systemBet.type) : [];
+
+  const totalCost = isAccumulator
+    ? betslipStake
+    : isSystem
+    ? betslipStake * systemLines.length
+    : betslipSelections.reduce((total, selection) => total + selection.amount, 0);
+  const totalPotentialWin = isAccumulator
+    ? betslipStake * accumulatorOdds
+    : isSystem
+    ? systemLines.reduce((total, line) => total + betslipStake * combineOdds(line.map(leg => leg.odds)), 0)
+    : betslipSelections.reduce((total, selection) => total + (selection.amount * selection.odds), 0);
   const totalPotentialProfit = totalPotentialWin - totalCost;
+  const canPlace = totalCost <= wallet &&
+    (!isAccumulator || canCombine) &&
+    (!isSystem || systemLines.length > 0);
 
   const updateStake = (amount: number) => {
     updateGameState({ betslipStake: Math.max(1, amount) });
   };
 
+  const setMode = (mode: GameState['betslipMode']) => {
+    updateGameState({ betslipMode: mode });
+  };
+
   const handlePlaceBets = () => {
-    if (totalCost > wallet) {
+    if (!canPlace) {
       return;
     }
 
@@ -60,7 +89,7 @@ export function BetslipDrawer({
       }
     }
 
-    const success = placeBetslipBets();
+    const success = placeBetslipBets(isSystem ? systemBet?.type : undefined);
     if (success) {
       setIsExpanded(false);
     }
@@ -158,6 +187,23 @@ export function BetslipDrawer({
             </div>
           </div>
 
+          {/* Singles / Accumulator / System toggle */}
+          <div className="px-4 pt-3">
+            <div className="grid grid-cols-3 gap-1 p-1 bg-white/5 rounded-lg border border-white/10">
+              {(['singles', 'accumulator', 'system'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setMode(mode)}
+                  className={`py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    betslipMode === mode ? 'bg-sidebar-primary/30 text-white' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {mode === 'singles' ? 'Singles' : mode === 'accumulator' ? 'Accumulator' : 'System'}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Selections */}
           <div className="max-h-48 overflow-y-auto">
             {betslipSelections.map((selection) => (
@@ -182,16 +228,20 @@ export function BetslipDrawer({
                         {getOutcomeLabel(selection)}
                       </Badge>
                       <span className="text-gray-300 text-xs">@{selection.odds}</span>
-                      <span className="text-blue-300 text-xs">${selection.amount} stake</span>
+                      {betslipMode === 'singles' && (
+                        <span className="text-blue-300 text-xs">${selection.amount} stake</span>
+                      )}
                     </div>
                   </div>
                   
-                  <div className="text-right">
-                    <p className="text-white text-sm font-medium">
-                      {formatCurrencySimple(selection.amount * selection.odds)}
-                    </p>
-                    <p className="text-gray-400 text-xs">potential win</p>
-                  </div>
+                  {betslipMode === 'singles' && (
+                    <div className="text-right">
+                      <p className="text-white text-sm font-medium">
+                        {formatCurrencySimple(selection.amount * selection.odds)}
+                      </p>
+                      <p className="text-gray-400 text-xs">potential win</p>
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -199,6 +249,80 @@ export function BetslipDrawer({
 
           {/* Place Bet Section */}
           <div className="p-4 bg-slate-800/60 border-t border-white/10">
+            {isSystem && (
+              <div className="mb-4 space-y-3">
+                {availableSystemBets.length > 0 ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    {availableSystemBets.map(definition => (
+                      <button
+                        key={definition.type}
+                        onClick={() => setSelectedSystemType(definition.type)}
+                        className={`py-2 rounded-lg border text-sm transition-colors ${
+                          systemBet?.type === definition.type
+                            ? 'bg-sidebar-primary/30 border-sidebar-primary/60 text-white'
+                            : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                        }`}
+                      >
+                        <div className="font-medium">{definition.name}</div>
+                        <div className="text-xs text-gray-400">
+                          {expandSystemBet(betslipSelections, definition.type).length} lines
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2 text-xs text-orange-300">
+                    <AlertTriangle size={12} />
+                    System bets need 3 to 5 selections
+                  </div>
+                )}
+                {hasSameMatchLegs && (
+                  <div className="flex items-center gap-2 text-xs text-orange-300">
+                    <AlertTriangle size={12} />
+                    Selections from the same match can't be combined
+                  </div>
+                )}
+              </div>
+            )}
+
+            {(isAccumulator || isSystem) && (
+              <div className="mb-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2 text-white text-sm">
+                    <Layers size={14} className="text-sidebar-primary" />
+                    {isSystem
+                      ? <>{systemBet?.name ?? 'System'} • <span className="font-bold">{systemLines.length} lines</span></>
+                      : <>{betslipSelections.length}-fold @ <span className="font-bold">{accumulatorOdds}</span></>}
+                  </div>
+                  <span className="text-blue-300 text-xs">${betslipStake} {isSystem ? 'per line' : 'stake'}</span>
+                </div>
+                {isAccumulator && !canCombine && (
+                  <div className="flex items-center gap-2 text-xs text-orange-300">
+                    <AlertTriangle size={12} />
+                    {hasSameMatchLegs
+                      ? 'Selections from the same match can\'t be combined'
+                      : 'Add a selection from another match to build an accumulator'}
+                  </div>
+                )}
+                <div className="grid grid-cols-6 gap-1">
+                  {quickStakeAmounts.map(amount => (
+                    <button
+                      key={amount}
+                      onClick={() => updateStake(amount)}
+                      disabled={amount > wallet}
+                      className={`py-1 rounded-md text-xs border transition-colors disabled:opacity-40 ${
+                        betslipStake === amount
+                          ? 'bg-sidebar-primary/30 border-sidebar-primary/60 text-white'
+                          : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                      }`}
+                    >
+                      ${amount}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="grid grid-cols-3 gap-3 mb-4 text-center">
               <div>
                 <p className="text-gray-400 text-xs">Total Cost</p>
@@ -217,10 +341,13 @@ export function BetslipDrawer({
             <Button
               data-testid="place-betslip-button"
               onClick={handlePlaceBets}
-              disabled={totalCost > wallet}
+              disabled={!canPlace}
               className="w-full bg-gradient-to-r from-green-600 to-emerald-600 text-white hover:from-green-700 hover:to-emerald-700 font-bold py-4 text-lg rounded-xl shadow-lg"
             >
-              {totalCost > wallet ? 'Insufficient Funds' : `Place ${betslipSelections.length} Bet${betslipSelections.length > 1 ? 's' : ''} - ${formatCurrencySimple(totalCost)}`}
+              {totalCost > wallet ? 'Insufficient Funds' :
+               isAccumulator ? `Place Accumulator - ${formatCurrencySimple(totalCost)}` :
+               isSystem ? `Place ${systemBet?.name ?? 'System Bet'} - ${formatCurrencySimple(totalCost)}` :
+               `Place ${betslipSelections.length} Bet${betslipSelections.length > 1 ? 's' : ''} - ${formatCurrencySimple(totalCost)}`}
             </Button>
           </div>
         </div>
@@ -2,17 +2,38 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
-import { TrendingUp, TrendingDown, DollarSign, Target, Zap, ChevronDown, ChevronRight } from 'lucide-react';
+import { TrendingUp, TrendingDown, DollarSign, Target, Zap, ChevronDown, ChevronRight, Lock } from 'lucide-react';
 import { Bet } from '../App';
 import { useCountingAnimation } from './utils/useCountingAnimation';
+import { AccumulatorLegs } from './AccumulatorLegs';
+import { SystemBetLines } from './SystemBetLines';
+import { CashOutHistory } from './CashOutHistory';
+import { AutoCashOutRule, describeAutoCashOutRule, getOpenStake, getTotalReturn } from './utils/cashOut';
+import { getBetSelection, getSelectionLabel } from './utils/matchMarkets';
+import { BET_RESULT_LABELS, isStakeReturned } from './utils/betSettlement';
 
 interface BettingSummaryProps {
   activeBets: Bet[];
   powerUpAvailable?: boolean;
   onUsePowerUp?: (betId: string) => void;
+  getCashOutValue?: (bet: Bet) => number | null;
+  cashOutSuspended?: boolean;
+  onCashOut?: (bet: Bet, fraction: number) => void;
+  onSetAutoCashOut?: (betId: string, rules: AutoCashOutRule[]) => void;
 }
 
-export function BettingSummary({ activeBets, powerUpAvailable = false, onUsePowerUp }: BettingSummaryProps) {
+// Offer multiple for the value-target auto cash-out rule
+const AUTO_CASH_OUT_MULTIPLE = 2;
+
+export function BettingSummary({
+  activeBets,
+  powerUpAvailable = false,
+  onUsePowerUp,
+  getCashOutValue,
+  cashOutSuspended = false,
+  onCashOut,
+  onSetAutoCashOut
+}: BettingSummaryProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [previousBetCount, setPreviousBetCount] = useState(0);
   const [showPulse, setShowPulse] = useState(false);
@@ -27,21 +48,27 @@ export function BettingSummary({ activeBets, powerUpAvailable = false, onUsePowe
     setPreviousBetCount(activeBets.length);
   }, [activeBets.length, previousBetCount]);
 
+  // System bet lines are shown under their system bet, which carries their total stake
+  const topLevelBets = activeBets.filter(bet => !bet.parentId);
+  const getSystemLines = (bet: Bet) => activeBets.filter(line => line.parentId === bet.id);
+
   // Calculate betting statistics
-  const totalBets = activeBets.length;
-  const totalStaked = activeBets.reduce((sum, bet) => sum + bet.amount, 0);
-  const potentialWin = activeBets.reduce((sum, bet) => {
+  const totalBets = topLevelBets.length;
+  const totalStaked = topLevelBets.reduce((sum, bet) => sum + bet.amount, 0);
+  const potentialWin = topLevelBets.reduce((sum, bet) => {
     if (!bet.resolved) {
       const multiplier = bet.powerUpApplied ? 2 : 1;
-      return sum + (bet.amount * bet.odds * multiplier);
+      return sum + (getOpenStake(bet) * bet.odds * multiplier);
     }
     return sum;
   }, 0);
   
-  const resolvedBets = activeBets.filter(bet => bet.resolved);
+  const resolvedBets = topLevelBets.filter(bet => bet.resolved);
   const wonBets = resolvedBets.filter(bet => bet.won);
-  const actualWins = wonBets.reduce((sum, bet) => sum + (bet.payout || 0), 0);
-  const actualLosses = resolvedBets.filter(bet => !bet.won).reduce((sum, bet) => sum + bet.amount, 0);
+  const actualWins = resolvedBets.reduce((sum, bet) => sum + getTotalReturn(bet), 0);
+  const actualLosses = resolvedBets
+    .filter(bet => !bet.won && !isStakeReturned(bet.result))
+    .reduce((sum, bet) => sum + bet.amount, 0);
 
   // Animated values for smooth counting transitions
   const animatedTotalBets = useCountingAnimation(totalBets, 'fast');
@@ -51,12 +78,81 @@ export function BettingSummary({ activeBets, powerUpAvailable = false, onUsePowe
   const animatedNetPL = useCountingAnimation(actualWins - actualLosses, 'fast');
 
   // Get recent bets for collapsed view
-  const recentBets = activeBets
+  const recentBets = topLevelBets
     .sort((a, b) => b.timestamp - a.timestamp)
     .slice(0, 3);
 
   if (totalBets === 0) return null;
 
+  const renderCashOut = (bet: Bet) => {
+    const value = getCashOutValue?.(bet) ?? null;
+    if (value === null || !onCashOut) return null;
+
+    if (cashOutSuspended) {
+      return (
+        <div className="shrink-0 flex items-center gap-1 text-xs px-2 py-1 rounded-md border border-white/10 bg-white/5 text-gray-400">
+          <Lock size={10} />
+          Suspended
+        </div>
+      );
+    }
+
+    return (
+      <div className="shrink-0 flex items-center gap-1">
+        <button
+          onClick={() => onCashOut(bet, 1)}
+          className="text-xs px-2 py-1 rounded-md border border-amber-400/40 bg-amber-500/15 text-amber-300 hover:bg-amber-500/25 transition-colors"
+          aria-label="Cash out"
+        >
+          Cash out ${value.toFixed(2)}
+        </button>
+        <button
+          onClick={() => onCashOut(bet, 0.5)}
+          className="text-xs px-2 py-1 rounded-md border border-amber-400/30 bg-white/5 text-amber-200 hover:bg-amber-500/15 transition-colors"
+          aria-label="Cash out half"
+        >
+          ½
+        </button>
+      </div>
+    );
+  };
+
+  const renderAutoCashOut = (bet: Bet) => {
+    if (!onSetAutoCashOut || getCashOutValue?.(bet) == null) return null;
+
+    const rules = bet.autoCashOut ?? [];
+    const options: AutoCashOutRule[] = [
+      { type: 'value-target', multiple: AUTO_CASH_OUT_MULTIPLE },
+      // Only a backed team can concede against the bet
+      ...(bet.outcome === 'home' || bet.outcome === 'away' ? [{ type: 'team-concedes' as const, team: bet.outcome as 'home' | 'away' }] : [])
+    ];
+    const teams = { homeTeam: bet.homeTeam ?? 'Home', awayTeam: bet.awayTeam ?? 'Away' };
+
+    return (
+      <div className="flex flex-wrap gap-1 mt-2">
+        {options.map(option => {
+          const isActive = rules.some(rule => rule.type === option.type);
+          return (
+            <button
+              key={option.type}
+              onClick={() => onSetAutoCashOut(
+                bet.id,
+                isActive ? rules.filter(rule => rule.type !== option.type) : [...rules, option]
+              )}
+              className={`text-xs px-2 py-0.5 rounded-full border transition-colors ${
+                isActive
+                  ? 'bg-amber-500/20 border-amber-400/40 text-amber-300'
+                  : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'
+              }`}
+            >
+              {isActive ? '✓ ' : ''}{describeAutoCashOutRule(option, teams)}
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
   return (
     <Card 
       data-testid="betting-summary"
@@ -112,12 +208,12 @@ export function BettingSummary({ activeBets, powerUpAvailable = false, onUsePowe
                 <div className="flex items-center justify-between border-b border-white/10 pb-2">
                   <span className="text-sm text-white">All Bets</span>
                   <div className="flex items-center gap-3 text-xs text-gray-400">
-                    <span>{activeBets.filter(bet => !bet.resolved).length} active</span>
+                    <span>{topLevelBets.filter(bet => !bet.resolved).length} active</span>
                     <span>{resolvedBets.length} resolved</span>
                   </div>
                 </div>
                 
-                {activeBets
+                {topLevelBets
                   .sort((a, b) => b.timestamp - a.timestamp) // Most recent first
                   .map((bet, index) => (
                     <div key={bet.id} className="bg-gradient-to-r from-slate-800/20 to-slate-700/20 rounded-lg p-2 border border-white/10">
@@ -128,10 +224,13 @@ export function BettingSummary({ activeBets, powerUpAvailable = false, onUsePowe
                             className={`text-xs ${
                               bet.type === 'action' ? 'bg-purple-500/20 border-purple-400/30 text-purple-300' :
                               bet.type === 'full-match' ? 'bg-blue-500/20 border-blue-400/30 text-blue-300' :
+                              bet.type === 'accumulator' ? 'bg-emerald-500/20 border-emerald-400/30 text-emerald-300' :
+                              bet.type === 'system' ? 'bg-teal-500/20 border-teal-400/30 text-teal-300' :
+                              bet.type === 'outright' ? 'bg-yellow-500/20 border-yellow-400/30 text-yellow-300' :
                               'bg-gray-500/20 border-gray-400/30 text-gray-300'
                             }`}
                           >
-                            {bet.type === 'action' ? 'Action' : bet.type === 'full-match' ? 'Match' : 'Lobby'}
+                            {bet.type === 'action' ? 'Action' : bet.type === 'full-match' ? 'Match' : bet.type === 'accumulator' ? 'Acca' : bet.type === 'system' ? 'System' : bet.type === 'outright' ? 'Cup' : 'Lobby'}
                           </Badge>
                           
                           {bet.powerUpApplied && (
@@ -144,12 +243,16 @@ export function BettingSummary({ activeBets, powerUpAvailable = false, onUsePowe
                             <Badge 
                               variant="outline" 
                               className={`text-xs ${
-                                bet.won 
+                                bet.cashedOut
+                                  ? 'bg-amber-500/20 border-amber-400/30 text-amber-300'
+                                  : isStakeReturned(bet.result)
+                                  ? 'bg-gray-500/20 border-gray-400/30 text-gray-300'
+                                  : bet.won 
                                   ? 'bg-green-500/20 border-green-400/30 text-green-300' 
                                   : 'bg-red-500/20 border-red-400/30 text-red-300'
                               }`}
                             >
-                              {bet.won ? 'Won' : 'Lost'}
+                              {bet.cashedOut ? 'Cashed Out' : bet.result ? BET_RESULT_LABELS[bet.result] : bet.won ? 'Won' : 'Lost'}
                             </Badge>
                           )}
                         </div>
@@ -161,13 +264,22 @@ export function BettingSummary({ activeBets, powerUpAvailable = false, onUsePowe
                       
                       <div className="flex items-center justify-between gap-2">
                         <div className="flex-1">
-                          <div className="text-sm text-white mb-1">{bet.outcome}</div>
+                          <div className="text-sm text-white mb-1">
+                            {bet.type === 'full-match' || bet.type === 'lobby'
+                              ? getSelectionLabel(getBetSelection(bet), bet)
+                              : bet.outcome}
+                          </div>
                           <div className="text-xs text-gray-400">
-                            ${bet.amount} @ {bet.odds} = {(bet.amount * bet.odds * (bet.powerUpApplied ? 2 : 1)).toFixed(0)} potential
+                            {bet.type === 'system'
+                              ? `$${bet.amount} total = ${(bet.amount * bet.odds).toFixed(0)} potential`
+                              : `$${getOpenStake(bet)} @ ${bet.odds} = ${(getOpenStake(bet) * bet.odds * (bet.powerUpApplied ? 2 : 1)).toFixed(0)} potential`}
                           </div>
+                          <CashOutHistory bet={bet} />
+                          {bet.legs && <AccumulatorLegs legs={bet.legs} />}
+                          {bet.type === 'system' && <SystemBetLines lines={getSystemLines(bet)} />}
                         </div>
                         {/* Use Power-Up action on mobile summary */}
-                        {!bet.resolved && powerUpAvailable && !bet.powerUpApplied && onUsePowerUp && (
+                        {!bet.resolved && bet.type !== 'system' && powerUpAvailable && !bet.powerUpApplied && onUsePowerUp && (
                           <button
                             onClick={() => onUsePowerUp(bet.id)}
                             className="shrink-0 text-xs px-2 py-1 rounded-md border border-yellow-400/40 bg-yellow-500/15 text-yellow-300 hover:bg-yellow-500/25 transition-colors"
@@ -176,13 +288,17 @@ export function BettingSummary({ activeBets, powerUpAvailable = false, onUsePowe
                             2x
                           </button>
                         )}
+
+                        {renderCashOut(bet)}
                         
                         {bet.resolved && (
                           <div className="text-right">
-                            {bet.won ? (
+                            {isStakeReturned(bet.result) ? (
+                              <span className="text-sm text-gray-300">${getTotalReturn(bet).toFixed(0)} back</span>
+                            ) : bet.won ? (
                               <div className="flex items-center gap-1">
                                 <TrendingUp size={12} className="text-green-400" />
-                                <span className="text-sm text-green-300">+${bet.payout?.toFixed(0)}</span>
+                                <span className="text-sm text-green-300">+${getTotalReturn(bet).toFixed(0)}</span>
                               </div>
                             ) : (
                               <div className="flex items-center gap-1">
@@ -193,6 +309,7 @@ export function BettingSummary({ activeBets, powerUpAvailable = false, onUsePowe
                           </div>
                         )}
                       </div>
+                      {renderAutoCashOut(bet)}
                     </div>
                   ))}
                 
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Bet } from '../App';
+import { getOpenStake } from './utils/cashOut';
+
+interface CashOutHistoryProps {
+  bet: Bet;
+}
+
+export function CashOutHistory({ bet }: CashOutHistoryProps) {
+  if (!bet.cashOuts?.length) return null;
+
+  const getTriggerLabel = (trigger: string) =>
+    trigger === 'value-target' ? 'auto, value target' :
+    trigger === 'team-concedes' ? 'auto, goal conceded' : null;
+
+  const openStake = getOpenStake(bet);
+
+  return (
+    <div className="mt-1 space-y-0.5">
+      {bet.cashOuts.map((cashOut, index) => {
+        const triggerLabel = getTriggerLabel(cashOut.trigger);
+        return (
+          <div key={`${cashOut.timestamp}-${index}`} className="flex items-center gap-1.5 text-xs">
+            <span className="text-amber-300">{cashOut.minute}'</span>
+            <span className="text-gray-300">
+              Cashed out ${cashOut.stake.toFixed(2)} stake for ${cashOut.value.toFixed(2)}
+            </span>
+            {triggerLabel && <span className="text-gray-500">({triggerLabel})</span>}
+          </div>
+        );
+      })}
+      {openStake > 0 && (
+        <div className="text-xs text-gray-500">${openStake.toFixed(2)} stake left running</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Trophy } from 'lucide-react';
+import { Bet, MatchData } from '../App';
+import {
+  CUP_ROUND_NAMES,
+  CupCompetition,
+  getCupWinner,
+  getCupWinnerPrices,
+  getCurrentRound,
+  getTieWinner
+} from './utils/cupCompetition';
+
+interface CupPanelProps {
+  cup: CupCompetition | null;
+  activeBets: Bet[];
+  canAffordStake: boolean;
+  renderOdds: (match: MatchData) => React.ReactNode;
+  onStartCup: () => void;
+  onPlayRound: () => void;
+  onJoinTie: (tie: MatchData) => void;
+  onBackWinner: (team: string, odds: number) => void;
+}
+
+const formatTieResult = (tie: MatchData): string => {
+  const score = `${tie.homeTeam} ${tie.homeScore}-${tie.awayScore} ${tie.awayTeam}`;
+  if (tie.penaltyScore) return `${score} (${tie.penaltyScore.homeScore}-${tie.penaltyScore.awayScore} pens)`;
+  return tie.regularTimeScore ? `${score} (aet)` : score;
+};
+
+/**
+ * The cup in the lobby: the round being played, with ties to follow or bet
+ * on, the outright winner market and the results so far.
+ */
+export function CupPanel({
+  cup,
+  activeBets,
+  canAffordStake,
+  renderOdds,
+  onStartCup,
+  onPlayRound,
+  onJoinTie,
+  onBackWinner
+}: CupPanelProps) {
+  const round = cup ? getCurrentRound(cup) : null;
+  const winner = cup ? getCupWinner(cup) : null;
+  const prices = cup ? getCupWinnerPrices(cup) : [];
+  const backed = new Set(activeBets.filter(bet => bet.type === 'outright' && bet.cupId === cup?.id && !bet.resolved).map(bet => bet.outcome));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 mb-3">
+        <div className="w-2 h-2 bg-yellow-500 rounded-full"></div>
+        <h2 className="text-gray-300/80 font-normal" style={{ textShadow: '0 1px 0 rgba(255, 255, 255, 0.05), 0 -1px 0 rgba(0, 0, 0, 0.4)' }}>Cup</h2>
+        {round !== null && (
+          <Badge variant="outline" className="bg-yellow-500/20 border-yellow-400/30 text-yellow-300 text-xs ml-auto">
+            {CUP_ROUND_NAMES[round]}
+          </Badge>
+        )}
+      </div>
+
+      <div className="backdrop-blur-md bg-gradient-to-r from-white/10 to-white/5 rounded-2xl p-4 border border-white/20 shadow-xl space-y-4">
+        {!cup || winner ? (
+          <div className="text-center space-y-3">
+            {winner ? (
+              <p className="text-yellow-300 font-medium flex items-center justify-center gap-2">
+                <Trophy size={16} />
+                {winner} win the cup!
+              </p>
+            ) : (
+              <p className="text-gray-300 text-sm">
+                Sixteen clubs, one trophy. Follow a tie each round or back your winner.
+              </p>
+            )}
+            <Button
+              onClick={onStartCup}
+              className="bg-gradient-to-r from-yellow-500 to-orange-500 text-white hover:from-yellow-600 hover:to-orange-600 px-6 py-2 rounded-lg font-semibold"
+            >
+              {winner ? 'Start a new cup' : 'Start the cup'}
+            </Button>
+          </div>
+        ) : round !== null && (
+          <>
+            {/* The round being played */}
+            <div className="space-y-2">
+              {cup.rounds[round].map(tie => getTieWinner(tie) ? (
+                <p key={tie.id} className="text-gray-400 text-xs text-center">{formatTieResult(tie)}</p>
+              ) : (
+                <div key={tie.id} className="backdrop-blur-sm bg-white/5 rounded-xl p-3 border border-white/10 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-white font-medium text-sm">{tie.homeTeam} v {tie.awayTeam}</p>
+                    <Button
+                      onClick={() => onJoinTie(tie)}
+                      className="bg-gradient-to-r from-blue-500 to-purple-600 text-white hover:from-blue-600 hover:to-purple-700 px-4 py-1 rounded-lg font-semibold h-8"
+                    >
+                      Follow
+                    </Button>
+                  </div>
+                  {renderOdds(tie)}
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                onClick={onPlayRound}
+                className="w-full bg-transparent border-white/20 text-gray-300 hover:bg-white/10"
+              >
+                Play the rest of the round
+              </Button>
+            </div>
+
+            {/* Outright market */}
+            <div className="space-y-2">
+              <p className="text-gray-300 text-sm font-medium">Cup winner</p>
+              <div className="grid grid-cols-2 gap-2">
+                {prices.map(({ team, odds }) => (
+                  <button
+                    key={team}
+                    onClick={() => onBackWinner(team, odds)}
+                    disabled={!canAffordStake}
+                    className={`flex items-center justify-between rounded-lg px-2 py-1 text-xs transition-colors disabled:opacity-50 ${
+                      backed.has(team) ? 'bg-yellow-500/20 ring-1 ring-yellow-400/60' : 'bg-white/5 hover:bg-white/10'
+                    }`}
+                  >
+                    <span className="text-gray-300 truncate">{team}</span>
+                    <span className="text-white font-bold ml-2">{odds}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* Results so far */}
+        {cup && cup.rounds.some(ties => ties.every(getTieWinner)) && (
+          <div className="space-y-2 border-t border-white/10 pt-3">
+            {cup.rounds.filter(ties => ties.every(getTieWinner)).map((ties, index) => (
+              <div key={CUP_ROUND_NAMES[index]} className="space-y-0.5">
+                <p className="text-gray-400 text-xs font-medium">{CUP_ROUND_NAMES[index]}</p>
+                {ties.map(tie => (
+                  <p key={tie.id} className="text-gray-300 text-xs">{formatTieResult(tie)}</p>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
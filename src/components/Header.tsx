@@ -2,8 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Switch } from './ui/switch';
-import { Users, User, LogOut, Menu, X, ArrowLeft, Zap, Trophy } from 'lucide-react';
+import { Users, User, LogOut, Menu, X, ArrowLeft, Zap, Trophy, Receipt, AlertTriangle } from 'lucide-react';
 import { GameState } from '../App';
+import { TransactionsDrawer } from './TransactionsDrawer';
+import { reconcileWallet } from './utils/walletLedger';
 
 interface HeaderProps {
   gameState: GameState;
@@ -17,8 +19,10 @@ interface HeaderProps {
 
 export function Header({ gameState, totalPlayersOnline = 0, showBackButton = false, onBackClick, onDebugActionBet, onDebugMatchSummary, updateGameState }: HeaderProps) {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isTransactionsOpen, setIsTransactionsOpen] = useState(false);
   const [animatedBalance, setAnimatedBalance] = useState(gameState.wallet);
   const APP_VERSION = (import.meta as any)?.env?.VITE_APP_VERSION || '0.1.0';
+  const { isBalanced } = reconcileWallet(gameState.wallet, gameState.ledger);
 
   // Animate balance changes
   useEffect(() => {
@@ -48,6 +52,11 @@ export function Header({ gameState, totalPlayersOnline = 0, showBackButton = fal
     setIsMenuOpen(false);
   };
 
+  const handleTransactionsClick = () => {
+    setIsTransactionsOpen(true);
+    setIsMenuOpen(false);
+  };
+
   const handleAnimationToggle = (enabled: boolean) => {
     if (updateGameState) {
       updateGameState({ 
@@ -205,7 +214,7 @@ export function Header({ gameState, totalPlayersOnline = 0, showBackButton = fal
               <div className="flex justify-between items-center">
                 <span className="text-gray-400 text-xs">Active Bets</span>
                 <Badge className="bg-blue-500/20 text-blue-300 border-blue-400/30 text-xs">
-                  {gameState.activeBets.filter(bet => !bet.resolved).length}
+                  {gameState.activeBets.filter(bet => !bet.resolved && !bet.parentId).length}
                 </Badge>
               </div>
               <div className="flex justify-between items-center">
@@ -226,6 +235,16 @@ export function Header({ gameState, totalPlayersOnline = 0, showBackButton = fal
                 <User size={16} className="mr-3" />
                 My Account
               </Button>
+
+              <Button
+                variant="ghost"
+                className="w-full justify-start text-white hover:bg-white/10 text-sm"
+                onClick={handleTransactionsClick}
+              >
+                <Receipt size={16} className="mr-3" />
+                Transactions
+                {!isBalanced && <AlertTriangle size={14} className="ml-auto text-red-400" />}
+              </Button>
               
               {/* Animation Toggle */}
               <div className="flex items-center justify-between px-3 py-2 hover:bg-white/5 rounded-md">
@@ -275,12 +294,22 @@ export function Header({ gameState, totalPlayersOnline = 0, showBackButton = fal
                 </Button>
                 <div className="mt-2 px-3 py-1 text-[11px] text-gray-400/90 border-t border-white/10">
                   Version v{APP_VERSION}
+                  {/* Seed lets a reported match be replayed exactly */}
+                  {gameState.phase === 'match' && gameState.matchEngine && (
+                    <div>Match seed {gameState.matchEngine.seed}</div>
+                  )}
                 </div>
               </div>
             </div>
           </div>
         </>
       )}
+
+      <TransactionsDrawer
+        gameState={gameState}
+        isOpen={isTransactionsOpen}
+        onClose={() => setIsTransactionsOpen(false)}
+      />
     </>
   );
 }
@@ -0,0 +1,81 @@
+import React, { useMemo } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { MatchData } from '../App';
+import { LeagueTable } from './LeagueTable';
+import { LeagueSeason, getCurrentFixtures, getLeagueTable, isSeasonFinished } from './utils/leagueSeason';
+
+interface LeaguePanelProps {
+  season: LeagueSeason;
+  renderOdds: (match: MatchData) => React.ReactNode;
+  onWatchFixture: (fixture: MatchData) => void;
+  onPlayMatchday: () => void;
+  onNewSeason: () => void;
+}
+
+/**
+ * The league in the lobby: the current matchday's fixtures, any of which the
+ * user can watch or bet on, and the table.
+ */
+export function LeaguePanel({ season, renderOdds, onWatchFixture, onPlayMatchday, onNewSeason }: LeaguePanelProps) {
+  const table = useMemo(() => getLeagueTable(season), [season]);
+  const finished = isSeasonFinished(season);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 mb-3">
+        <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+        <h2 className="text-gray-300/80 font-normal" style={{ textShadow: '0 1px 0 rgba(255, 255, 255, 0.05), 0 -1px 0 rgba(0, 0, 0, 0.4)' }}>League</h2>
+        <Badge variant="outline" className="bg-green-500/20 border-green-400/30 text-green-300 text-xs ml-auto">
+          {finished ? 'Season over' : `Matchday ${season.matchday + 1} of ${season.matchdays.length}`}
+        </Badge>
+      </div>
+
+      <div className="backdrop-blur-md bg-gradient-to-r from-white/10 to-white/5 rounded-2xl p-4 border border-white/20 shadow-xl space-y-4">
+        {finished ? (
+          <div className="text-center space-y-3">
+            <p className="text-green-300 font-medium">{table[0]?.team} are champions!</p>
+            <Button
+              onClick={onNewSeason}
+              className="bg-gradient-to-r from-green-500 to-emerald-600 text-white hover:from-green-600 hover:to-emerald-700 px-6 py-2 rounded-lg font-semibold"
+            >
+              Start next season
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {getCurrentFixtures(season).map(fixture => fixture.status === 'finished' ? (
+              <p key={fixture.id} className="text-gray-400 text-xs text-center">
+                {fixture.homeTeam} {fixture.homeScore}-{fixture.awayScore} {fixture.awayTeam}
+              </p>
+            ) : (
+              <div key={fixture.id} className="backdrop-blur-sm bg-white/5 rounded-xl p-3 border border-white/10 space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-white font-medium text-sm">{fixture.homeTeam} v {fixture.awayTeam}</p>
+                  <Button
+                    onClick={() => onWatchFixture(fixture)}
+                    className="bg-gradient-to-r from-blue-500 to-purple-600 text-white hover:from-blue-600 hover:to-purple-700 px-4 py-1 rounded-lg font-semibold h-8"
+                  >
+                    Watch
+                  </Button>
+                </div>
+                {renderOdds(fixture)}
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              onClick={onPlayMatchday}
+              className="w-full bg-transparent border-white/20 text-gray-300 hover:bg-white/10"
+            >
+              Play the rest of the matchday
+            </Button>
+          </div>
+        )}
+
+        <div className="border-t border-white/10 pt-3">
+          <LeagueTable rows={table} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import React from 'react';
+import { FormResult, LeagueTableRow } from './utils/leagueSeason';
+
+interface LeagueTableProps {
+  rows: LeagueTableRow[];
+}
+
+const FORM_STYLES: Record<FormResult, string> = {
+  W: 'bg-green-500/80',
+  D: 'bg-gray-400/70',
+  L: 'bg-red-500/80'
+};
+
+/**
+ * League standings with each club's recent form.
+ */
+export function LeagueTable({ rows }: LeagueTableProps) {
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-gray-400">
+          <th className="text-left font-normal py-1 w-5">#</th>
+          <th className="text-left font-normal py-1">Club</th>
+          <th className="font-normal py-1">P</th>
+          <th className="font-normal py-1">W</th>
+          <th className="font-normal py-1">D</th>
+          <th className="font-normal py-1">L</th>
+          <th className="font-normal py-1">GF</th>
+          <th className="font-normal py-1">GA</th>
+          <th className="font-normal py-1">Pts</th>
+          <th className="font-normal py-1 text-right">Form</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row, index) => (
+          <tr key={row.team} className="border-t border-white/5 text-gray-300">
+            <td className="py-1">{index + 1}</td>
+            <td className="py-1 truncate max-w-[6rem]">{row.team}</td>
+            <td className="py-1 text-center">{row.played}</td>
+            <td className="py-1 text-center">{row.won}</td>
+            <td className="py-1 text-center">{row.drawn}</td>
+            <td className="py-1 text-center">{row.lost}</td>
+            <td className="py-1 text-center">{row.goalsFor}</td>
+            <td className="py-1 text-center">{row.goalsAgainst}</td>
+            <td className="py-1 text-center font-bold text-white">{row.points}</td>
+            <td className="py-1">
+              <div className="flex justify-end gap-0.5">
+                {row.form.map((result, formIndex) => (
+                  <span
+                    key={formIndex}
+                    title={result}
+                    className={`w-2 h-2 rounded-full ${FORM_STYLES[result]}`}
+                  />
+                ))}
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -1,142 +1,82 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Sun, Cloud, Users, Clock, Play } from 'lucide-react';
 import { Header } from './Header';
-import { GameState, MatchData } from '../App';
+import { GameState, GameStateUpdate, MatchData, BetslipSelection } from '../App';
+import { formatLiveClock } from './utils/matchEngine';
+import { joinMatch } from './utils/useLobbyMatches';
+import { createCup, playCupRound } from './utils/cupCompetition';
+import { createSeason, playMatchday } from './utils/leagueSeason';
+import { CupPanel } from './CupPanel';
+import { formatCountdown, formatKickOffTime } from './utils/kickOffTime';
+import { useNow } from './utils/useNow';
+import { LeaguePanel } from './LeaguePanel';
 
 interface LobbyProps {
   gameState: GameState;
-  updateGameState: (updates: Partial<GameState>) => void;
+  updateGameState: (updates: GameStateUpdate) => void;
+  addToBetslip: (selection: BetslipSelection) => void;
+  placeOutrightBet: (team: string, odds: number) => void;
 }
 
-const generateRandomMatch = (isLive: boolean = false): MatchData => {
-  const teams = [
-    'Arsenal', 'Chelsea', 'Liverpool', 'Man City', 'Man United', 'Tottenham',
-    'Barcelona', 'Real Madrid', 'Bayern Munich', 'PSG', 'Juventus', 'AC Milan',
-    'Borussia Dortmund', 'Atletico Madrid', 'Inter Milan', 'Ajax'
-  ];
-  
-  const homeTeam = teams[Math.floor(Math.random() * teams.length)];
-  let awayTeam = teams[Math.floor(Math.random() * teams.length)];
-  while (awayTeam === homeTeam) {
-    awayTeam = teams[Math.floor(Math.random() * teams.length)];
-  }
+type LobbyView = 'matches' | 'league' | 'cup';
 
-  // Generate realistic odds
-  const homeOdds = Number((1.5 + Math.random() * 3).toFixed(2));
-  const drawOdds = Number((3.0 + Math.random() * 2).toFixed(2));
-  const awayOdds = Number((1.5 + Math.random() * 4).toFixed(2));
+const LOBBY_VIEWS: { id: LobbyView; label: string }[] = [
+  { id: 'matches', label: 'Matches' },
+  { id: 'league', label: 'League' },
+  { id: 'cup', label: 'Cup' }
+];
 
-  // Generate live match data if it's a live match
-  const homeScore = isLive ? Math.floor(Math.random() * 4) : 0;
-  const awayScore = isLive ? Math.floor(Math.random() * 4) : 0;
-  const timeElapsed = isLive ? Math.floor(Math.random() * 90) : 0;
-  const playerCount = Math.floor(Math.random() * 150) + 25; // 25-174 players
-  
-  // Generate start time for upcoming matches (10-130 minutes from now)
-  const startTime = !isLive ? (() => {
-    const now = new Date();
-    const startDate = new Date(now.getTime() + (Math.random() * 120 + 10) * 60000);
-    return startDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-  })() : undefined;
+export function Lobby({ gameState, updateGameState, addToBetslip, placeOutrightBet }: LobbyProps) {
+  const matches = gameState.lobbyMatches;
+  const [view, setView] = useState<LobbyView>('matches');
+  const now = useNow();
 
-  return {
-    id: Date.now().toString() + Math.random(),
-    homeTeam,
-    awayTeam,
-    homeOdds,
-    drawOdds,
-    awayOdds,
-    homeScore,
-    awayScore,
-    status: isLive ? 'live' : 'not-started',
-    timeElapsed,
-    playerCount,
-    startTime
+  const startMatch = (matchData: MatchData) => {
+    updateGameState(prev => joinMatch(prev, matchData));
   };
-};
-
-const formatMatchTime = (seconds: number): string => {
-  if (seconds < 45 * 60) {
-    // First half (0-45 minutes)
-    const minutes = Math.floor(seconds / 60);
-    return `${minutes}'`;
-  } else if (seconds < 46 * 60) {
-    // Half time
-    return "HT";
-  } else {
-    // Second half (45-90 minutes)
-    const totalMinutes = Math.floor(seconds / 60);
-    const displayMinutes = Math.min(totalMinutes - 1, 90); // -1 to account for halftime, max 90
-    return `${displayMinutes}'`;
-  }
-};
-
-
 
-export function Lobby({ gameState, updateGameState }: LobbyProps) {
-  const [matches, setMatches] = useState<MatchData[]>([]);
+  const isSelected = (match: MatchData, outcome: BetslipSelection['outcome']) =>
+    gameState.betslipSelections.some(s => s.matchId === match.id && s.outcome === outcome);
 
-  useEffect(() => {
-    // Generate initial matches (mix of live and upcoming)
-    const initialMatches = [
-      generateRandomMatch(true),   // Live match
-      generateRandomMatch(true),   // Live match
-      generateRandomMatch(false),  // Upcoming match
-      generateRandomMatch(false),  // Upcoming match
-      generateRandomMatch(true),   // Live match
-    ];
-    setMatches(initialMatches);
-
-    // Update live matches every 3 seconds
-    const interval = setInterval(() => {
-      setMatches(prevMatches => 
-        prevMatches.map(match => {
-          if (match.status === 'live') {
-            // Randomly update scores and time
-            const shouldUpdateScore = Math.random() < 0.1; // 10% chance
-            const newHomeScore = shouldUpdateScore && Math.random() < 0.5 
-              ? Math.min(match.homeScore + 1, 5) 
-              : match.homeScore;
-            const newAwayScore = shouldUpdateScore && Math.random() < 0.5 && !shouldUpdateScore
-              ? Math.min(match.awayScore + 1, 5)
-              : match.awayScore;
-            
-            return {
-              ...match,
-              homeScore: newHomeScore,
-              awayScore: newAwayScore,
-              timeElapsed: Math.min(match.timeElapsed + Math.floor(Math.random() * 3), 90),
-              playerCount: Math.max(20, match.playerCount + Math.floor(Math.random() * 10) - 5)
-            };
-          }
-          return {
-            ...match,
-            playerCount: Math.max(20, match.playerCount + Math.floor(Math.random() * 6) - 3)
-          };
-        })
-      );
-    }, 3000);
-
-    return () => clearInterval(interval);
-  }, []);
-
-  const startMatch = (matchData: MatchData) => {
-    const newMatch = {
-      ...matchData,
-      status: 'not-started' as const,
-      homeScore: 0,
-      awayScore: 0,
-      timeElapsed: 0
-    };
-    
-    updateGameState({
-      currentMatch: newMatch,
-      phase: 'match'
+  const handleOddsClick = (match: MatchData, outcome: BetslipSelection['outcome']) => {
+    addToBetslip({
+      id: `${match.id}-${outcome}-${Date.now()}`,
+      matchId: match.id,
+      homeTeam: match.homeTeam,
+      awayTeam: match.awayTeam,
+      outcome,
+      odds: outcome === 'home' ? match.homeOdds : outcome === 'draw' ? match.drawOdds : match.awayOdds,
+      outcomeLabel: outcome === 'home' ? match.homeTeam : outcome === 'draw' ? 'Draw' : match.awayTeam,
+      amount: gameState.betslipStake
     });
   };
 
+  // Tapping a price adds it to the betslip
+  const renderOdds = (match: MatchData) => (
+    <div className="grid grid-cols-3 gap-3 text-center">
+      {([
+        { outcome: 'home', label: match.homeTeam, odds: match.homeOdds },
+        { outcome: 'draw', label: 'Draw', odds: match.drawOdds },
+        { outcome: 'away', label: match.awayTeam, odds: match.awayOdds }
+      ] as const).map(({ outcome, label, odds }) => (
+        <button
+          key={outcome}
+          onClick={() => handleOddsClick(match, outcome)}
+          className={`rounded-lg py-1 transition-colors ${
+            isSelected(match, outcome)
+              ? 'bg-blue-500/30 ring-1 ring-blue-400/60'
+              : 'hover:bg-white/10'
+          }`}
+        >
+          <p className="text-gray-400 text-xs truncate">{label}</p>
+          <p className="text-white font-bold">{odds}</p>
+        </button>
+      ))}
+    </div>
+  );
+
 
 
   const totalPlayersOnline = matches.reduce((total, match) => total + match.playerCount, 0);
@@ -153,172 +93,204 @@ export function Lobby({ gameState, updateGameState }: LobbyProps) {
       
       <div className="max-w-md mx-auto space-y-4 relative z-10 p-3">
 
-        {/* Live Matches Section */}
-        <div className="space-y-3">
-          <div className="flex items-center gap-2 mb-3">
-            <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
-            <h2 className="text-gray-300/80 font-normal" style={{ textShadow: '0 1px 0 rgba(255, 255, 255, 0.05), 0 -1px 0 rgba(0, 0, 0, 0.4)' }}>Current Live Matches</h2>
-          </div>
-          
-          {matches.filter(match => match.status === 'live').map((match, index) => (
-            <div 
-              key={match.id} 
-              className="backdrop-blur-md bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-2xl p-4 border border-blue-400/30 shadow-xl hover:shadow-2xl hover:bg-blue-500/25 transition-all duration-300"
+        <div className="flex gap-2">
+          {LOBBY_VIEWS.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setView(tab.id)}
+              className={`flex-1 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                view === tab.id
+                  ? 'bg-white/15 border-white/30 text-white'
+                  : 'bg-transparent border-white/10 text-gray-400 hover:text-white hover:border-white/20'
+              }`}
             >
-              {/* Header with team info and join button */}
-              <div className="flex items-start justify-between mb-3">
-                <div className="flex items-center gap-3 flex-1">
-                  {index % 2 === 0 ? (
-                    <div className="p-2 bg-gradient-to-r from-yellow-400/20 to-orange-400/20 rounded-full backdrop-blur-sm border border-yellow-400/30">
-                      <Sun size={16} className="text-yellow-400" />
-                    </div>
-                  ) : (
-                    <div className="p-2 bg-gradient-to-r from-gray-400/20 to-slate-400/20 rounded-full backdrop-blur-sm border border-gray-400/30">
-                      <Cloud size={16} className="text-gray-300" />
-                    </div>
-                  )}
-                  <div className="flex-1">
-                    <p className="text-white font-medium text-sm mb-1">
-                      {match.homeTeam} v {match.awayTeam}
-                    </p>
-                    <div className="flex items-center gap-3">
-                      <Badge variant="outline" className="bg-blue-500/20 border-blue-400/30 text-blue-300 text-xs">
-                        LIVE
-                      </Badge>
-                      <div className="flex items-center gap-1 text-gray-300 text-xs">
-                        <Clock size={12} />
-                        {formatMatchTime(match.timeElapsed * 60)}
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {view === 'league' && (
+          <LeaguePanel
+            season={gameState.season}
+            renderOdds={renderOdds}
+            onWatchFixture={startMatch}
+            onPlayMatchday={() => updateGameState(prev => ({ season: playMatchday(prev.season) }))}
+            onNewSeason={() => updateGameState(prev => ({ season: createSeason(prev.season.teams, prev.season.ratings) }))}
+          />
+        )}
+
+        {view === 'cup' && (
+          <CupPanel
+            cup={gameState.cup}
+            activeBets={gameState.activeBets}
+            canAffordStake={gameState.betslipStake <= gameState.wallet}
+            renderOdds={renderOdds}
+            onStartCup={() => updateGameState({ cup: createCup() })}
+            onPlayRound={() => updateGameState(prev => ({ cup: prev.cup && playCupRound(prev.cup) }))}
+            onJoinTie={startMatch}
+            onBackWinner={placeOutrightBet}
+          />
+        )}
+
+        {view === 'matches' && (
+          <>
+          {/* Live Matches Section */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 mb-3">
+              <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
+              <h2 className="text-gray-300/80 font-normal" style={{ textShadow: '0 1px 0 rgba(255, 255, 255, 0.05), 0 -1px 0 rgba(0, 0, 0, 0.4)' }}>Current Live Matches</h2>
+            </div>
+          
+            {matches.filter(match => match.status === 'live').map((match, index) => (
+              <div 
+                key={match.id} 
+                className="backdrop-blur-md bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-2xl p-4 border border-blue-400/30 shadow-xl hover:shadow-2xl hover:bg-blue-500/25 transition-all duration-300"
+              >
+                {/* Header with team info and join button */}
+                <div className="flex items-start justify-between mb-3">
+                  <div className="flex items-center gap-3 flex-1">
+                    {index % 2 === 0 ? (
+                      <div className="p-2 bg-gradient-to-r from-yellow-400/20 to-orange-400/20 rounded-full backdrop-blur-sm border border-yellow-400/30">
+                        <Sun size={16} className="text-yellow-400" />
+                      </div>
+                    ) : (
+                      <div className="p-2 bg-gradient-to-r from-gray-400/20 to-slate-400/20 rounded-full backdrop-blur-sm border border-gray-400/30">
+                        <Cloud size={16} className="text-gray-300" />
+                      </div>
+                    )}
+                    <div className="flex-1">
+                      <p className="text-white font-medium text-sm mb-1">
+                        {match.homeTeam} v {match.awayTeam}
+                      </p>
+                      <div className="flex items-center gap-3">
+                        <Badge variant="outline" className="bg-blue-500/20 border-blue-400/30 text-blue-300 text-xs">
+                          LIVE
+                        </Badge>
+                        {match.knockout && (
+                          <Badge variant="outline" className="bg-yellow-500/20 border-yellow-400/30 text-yellow-300 text-xs">
+                            CUP TIE
+                          </Badge>
+                        )}
+                        <div className="flex items-center gap-1 text-gray-300 text-xs">
+                          <Clock size={12} />
+                          {gameState.lobbyEngines[match.id] ? formatLiveClock(gameState.lobbyEngines[match.id].engine) : `${match.timeElapsed}'`}
+                        </div>
                       </div>
                     </div>
                   </div>
+                  <Button 
+                    onClick={() => startMatch(match)}
+                    className="bg-gradient-to-r from-blue-500 to-purple-600 text-white hover:from-blue-600 hover:to-purple-700 px-6 py-2 rounded-lg font-semibold ml-3 h-10 min-w-[80px]"
+                  >
+                    Join
+                  </Button>
                 </div>
-                <Button 
-                  onClick={() => startMatch(match)}
-                  className="bg-gradient-to-r from-blue-500 to-purple-600 text-white hover:from-blue-600 hover:to-purple-700 px-6 py-2 rounded-lg font-semibold ml-3 h-10 min-w-[80px]"
-                >
-                  Join
-                </Button>
-              </div>
 
-              {/* Score and odds in unified container */}
-              <div className="backdrop-blur-sm bg-white/5 rounded-xl p-3 border border-white/10 space-y-3">
-                {/* Live Score */}
-                <div className="flex items-center justify-center gap-4">
-                  <div className="text-center">
-                    <p className="text-gray-400 text-xs">{match.homeTeam}</p>
-                    <p className="text-white text-2xl font-bold">{match.homeScore}</p>
-                  </div>
-                  <div className="text-gray-400 text-lg">-</div>
-                  <div className="text-center">
-                    <p className="text-gray-400 text-xs">{match.awayTeam}</p>
-                    <p className="text-white text-2xl font-bold">{match.awayScore}</p>
+                {/* Score and odds in unified container */}
+                <div className="backdrop-blur-sm bg-white/5 rounded-xl p-3 border border-white/10 space-y-3">
+                  {/* Live Score */}
+                  <div className="flex items-center justify-center gap-4">
+                    <div className="text-center">
+                      <p className="text-gray-400 text-xs">{match.homeTeam}</p>
+                      <p className="text-white text-2xl font-bold">{match.homeScore}</p>
+                    </div>
+                    <div className="text-gray-400 text-lg">-</div>
+                    <div className="text-center">
+                      <p className="text-gray-400 text-xs">{match.awayTeam}</p>
+                      <p className="text-white text-2xl font-bold">{match.awayScore}</p>
+                    </div>
                   </div>
-                </div>
                 
-                {/* Divider */}
-                <div className="border-t border-white/10"></div>
+                  {/* Divider */}
+                  <div className="border-t border-white/10"></div>
                 
-                {/* Match Odds */}
-                <div className="grid grid-cols-3 gap-3 text-center">
-                  <div>
-                    <p className="text-gray-400 text-xs truncate">{match.homeTeam}</p>
-                    <p className="text-white font-bold">{match.homeOdds}</p>
-                  </div>
-                  <div>
-                    <p className="text-gray-400 text-xs">Draw</p>
-                    <p className="text-white font-bold">{match.drawOdds}</p>
-                  </div>
-                  <div>
-                    <p className="text-gray-400 text-xs truncate">{match.awayTeam}</p>
-                    <p className="text-white font-bold">{match.awayOdds}</p>
-                  </div>
+                  {/* Match Odds */}
+                  {renderOdds(match)}
                 </div>
-              </div>
 
-              {/* Footer info */}
-              <div className="flex items-center justify-center mt-2">
-                <div className="flex items-center gap-1 text-gray-300 text-xs">
-                  <Users size={12} />
-                  {match.playerCount} players betting
+                {/* Footer info */}
+                <div className="flex items-center justify-center mt-2">
+                  <div className="flex items-center gap-1 text-gray-300 text-xs">
+                    <Users size={12} />
+                    {match.playerCount} players betting
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
-        </div>
-
-        {/* Upcoming Matches Section */}
-        <div className="space-y-3">
-          <div className="flex items-center gap-2 mb-3">
-            <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-            <h2 className="text-gray-300/80 font-normal" style={{ textShadow: '0 1px 0 rgba(255, 255, 255, 0.05), 0 -1px 0 rgba(0, 0, 0, 0.4)' }}>Upcoming Matches</h2>
+            ))}
           </div>
+
+          {/* Upcoming Matches Section */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 mb-3">
+              <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
+              <h2 className="text-gray-300/80 font-normal" style={{ textShadow: '0 1px 0 rgba(255, 255, 255, 0.05), 0 -1px 0 rgba(0, 0, 0, 0.4)' }}>Upcoming Matches</h2>
+            </div>
           
-          {matches.filter(match => match.status === 'not-started').map((match, index) => (
-            <div 
-              key={match.id} 
-              className="backdrop-blur-md bg-gradient-to-r from-white/10 to-white/5 rounded-2xl p-4 border border-white/20 shadow-xl hover:shadow-2xl hover:bg-white/15 transition-all duration-300"
-            >
-              {/* Header with team info and status */}
-              <div className="flex items-start justify-between mb-3">
-                <div className="flex items-center gap-3 flex-1">
-                  {index % 2 === 0 ? (
-                    <div className="p-2 bg-gradient-to-r from-yellow-400/20 to-orange-400/20 rounded-full backdrop-blur-sm border border-yellow-400/30">
-                      <Sun size={16} className="text-yellow-400" />
-                    </div>
-                  ) : (
-                    <div className="p-2 bg-gradient-to-r from-gray-400/20 to-slate-400/20 rounded-full backdrop-blur-sm border border-gray-400/30">
-                      <Cloud size={16} className="text-gray-300" />
-                    </div>
-                  )}
-                  <div className="flex-1">
-                    <p className="text-white font-medium text-sm mb-1">
-                      {match.homeTeam} v {match.awayTeam}
-                    </p>
-                    <div className="flex items-center gap-3">
-                      <div className="flex items-center gap-1 text-gray-300 text-xs">
-                        <Users size={12} />
-                        {match.playerCount} players waiting
+            {matches
+              .filter(match => match.status === 'not-started')
+              .sort((a, b) => (a.startTime ?? Infinity) - (b.startTime ?? Infinity))
+              .map((match, index) => (
+              <div 
+                key={match.id} 
+                className="backdrop-blur-md bg-gradient-to-r from-white/10 to-white/5 rounded-2xl p-4 border border-white/20 shadow-xl hover:shadow-2xl hover:bg-white/15 transition-all duration-300"
+              >
+                {/* Header with team info and status */}
+                <div className="flex items-start justify-between mb-3">
+                  <div className="flex items-center gap-3 flex-1">
+                    {index % 2 === 0 ? (
+                      <div className="p-2 bg-gradient-to-r from-yellow-400/20 to-orange-400/20 rounded-full backdrop-blur-sm border border-yellow-400/30">
+                        <Sun size={16} className="text-yellow-400" />
+                      </div>
+                    ) : (
+                      <div className="p-2 bg-gradient-to-r from-gray-400/20 to-slate-400/20 rounded-full backdrop-blur-sm border border-gray-400/30">
+                        <Cloud size={16} className="text-gray-300" />
                       </div>
-                      <div className="flex items-center gap-1 text-blue-300 text-xs">
-                        <Clock size={12} />
-                        Kicks off {match.startTime}
+                    )}
+                    <div className="flex-1">
+                      <p className="text-white font-medium text-sm mb-1">
+                        {match.homeTeam} v {match.awayTeam}
+                      </p>
+                      <div className="flex items-center gap-3">
+                        <div className="flex items-center gap-1 text-gray-300 text-xs">
+                          <Users size={12} />
+                          {match.playerCount} players waiting
+                        </div>
+                        <div className="flex items-center gap-1 text-blue-300 text-xs">
+                          <Clock size={12} />
+                          {match.startTime !== undefined ? `Kicks off in ${formatCountdown(match.startTime, now)}` : 'Kick-off to be confirmed'}
+                        </div>
                       </div>
                     </div>
                   </div>
+                  <div className="flex flex-col items-end gap-1">
+                    <Badge variant="outline" className="bg-blue-500/20 border-blue-400/30 text-blue-300 text-xs px-2 py-1">
+                      Upcoming
+                    </Badge>
+                    {match.knockout && (
+                      <Badge variant="outline" className="bg-yellow-500/20 border-yellow-400/30 text-yellow-300 text-xs px-2 py-1">
+                        Cup tie
+                      </Badge>
+                    )}
+                  </div>
                 </div>
-                <Badge variant="outline" className="bg-blue-500/20 border-blue-400/30 text-blue-300 text-xs px-2 py-1">
-                  Upcoming
-                </Badge>
-              </div>
 
-              {/* Odds container */}
-              <div className="backdrop-blur-sm bg-white/5 rounded-xl p-3 border border-white/10">
-                <div className="grid grid-cols-3 gap-3 text-center">
-                  <div>
-                    <p className="text-gray-400 text-xs truncate">{match.homeTeam}</p>
-                    <p className="text-white font-bold">{match.homeOdds}</p>
-                  </div>
-                  <div>
-                    <p className="text-gray-400 text-xs">Draw</p>
-                    <p className="text-white font-bold">{match.drawOdds}</p>
-                  </div>
-                  <div>
-                    <p className="text-gray-400 text-xs truncate">{match.awayTeam}</p>
-                    <p className="text-white font-bold">{match.awayOdds}</p>
-                  </div>
+                {/* Odds container */}
+                <div className="backdrop-blur-sm bg-white/5 rounded-xl p-3 border border-white/10">
+                  {renderOdds(match)}
                 </div>
-              </div>
 
-              {/* Footer info */}
-              <div className="text-center mt-2">
-                <p className="text-gray-400 text-xs">
-                  Match starting at {match.startTime}
-                </p>
+                {/* Footer info */}
+                <div className="text-center mt-2">
+                  <p className="text-gray-400 text-xs">
+                    {match.startTime !== undefined && `Match starting at ${formatKickOffTime(match.startTime, now)}`}
+                  </p>
+                </div>
               </div>
-            </div>
-          ))}
-        </div>
+            ))}
+          </div>
 
+          </>
+        )}
 
       </div>
     </div>
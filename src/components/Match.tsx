@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Card, CardContent } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
@@ -6,20 +6,43 @@ import { Progress } from './ui/progress';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
 import { ArrowLeft, Clock, Pause, Play, Zap, ChevronDown, ChevronUp, ChevronRight } from 'lucide-react';
 import { Header } from './Header';
-import { GameState, Bet, ActionEvent, PowerUp, BetslipSelection } from '../App';
+import { GameState, GameStateUpdate, Bet, ActionEvent, PowerUp, BetslipSelection, MatchData } from '../App';
 import { ActionBettingModal } from './ActionBettingModal';
 import { MatchEvents } from './MatchEvents';
+import { MatchStatsTable } from './MatchStatsTable';
 import { BettingSummary } from './BettingSummary';
 import { SoccerPitchWithSocial } from './SoccerPitchWithSocial';
 import { StickyBettingDrawer } from './StickyBettingDrawer';
 import { LiveBettingFeed } from './LiveBettingFeed';
 import { useMultiplayerSimulation } from './utils/useMultiplayerSimulation';
+import {
+  MatchEngineState,
+  MATCH_DURATION,
+  NO_STOPPAGE_TIME,
+  formatEventTime,
+  formatLiveClock,
+  formatMatchClock,
+  getMatchClock,
+  getMatchUpdate,
+  getTickDelay,
+  stepMatch
+} from './utils/matchEngine';
+import { getBetSelection, settleSelection } from './utils/matchMarkets';
+import { ActionMarketSettlement, getAvailableActionMarkets, settleActionEvent } from './utils/actionMarkets';
+import { AutoCashOutRule, CashOutRecord, applyCashOut, createCashOut, getCashOutValue, getTriggeredAutoCashOut } from './utils/cashOut';
+import { BetResult, getSettlementPayout } from './utils/betSettlement';
+import { getMatchStats } from './utils/matchStats';
+
+// Seconds to bet on an action market; shoot-out kicks come thick and fast
+const ACTION_BETTING_SECONDS = 15;
+const PENALTY_BETTING_SECONDS = 6;
 
 interface MatchProps {
   gameState: GameState;
-  updateGameState: (updates: Partial<GameState>) => void;
+  updateGameState: (updates: GameStateUpdate) => void;
   addBet: (bet: Bet) => void;
-  resolveBet: (betId: string, won: boolean, payout?: number) => void;
+  resolveBet: (betId: string, result: BetResult, payout?: number) => void;
+  cashOutBet: (betId: string, cashOut: CashOutRecord) => void;
   awardPowerUp: () => void;
   usePowerUp: (betId: string) => void;
   showMatchSummary: () => void;
@@ -32,29 +55,28 @@ export function Match({
   updateGameState,
   addBet,
   resolveBet,
+  cashOutBet,
   awardPowerUp,
   usePowerUp,
   showMatchSummary,
   addToBetslip,
   triggerBetFeedback
 }: MatchProps) {
-  const [matchTimer, setMatchTimer] = useState(0);
   const [isMatchRunning, setIsMatchRunning] = useState(true);
   const [actionModalOpen, setActionModalOpen] = useState(false);
   const [currentActionEvent, setCurrentActionEvent] = useState<ActionEvent | null>(null);
-  const [actionBettingTimer, setActionBettingTimer] = useState(15);
+  const [actionBettingTimer, setActionBettingTimer] = useState(ACTION_BETTING_SECONDS);
+  const [actionBettingDuration, setActionBettingDuration] = useState(ACTION_BETTING_SECONDS);
   const [commentaryExpanded, setCommentaryExpanded] = useState(false);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [commentaryTab, setCommentaryTab] = useState<'events' | 'stats'>('events');
+  // Cash out is suspended for the tick a goal goes in, until the new score has settled
+  const [isUpdatingScore, setIsUpdatingScore] = useState(false);
   const actionTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const isUpdatingScore = useRef(false);
 
   // Social features state
   const [showEmojiReactions, setShowEmojiReactions] = useState(true);
   const [showLiveBetting, setShowLiveBetting] = useState(true);
 
-  // Store initial odds to calculate changes from
-  const [initialOdds, setInitialOdds] = useState<{home: number, draw: number, away: number} | null>(null);
-
   // Multiplayer simulation hook
   const { 
     playerCount, 
@@ -64,505 +86,166 @@ export function Match({
     generatePlayerReaction 
   } = useMultiplayerSimulation(gameState);
 
-  // Set initial odds when match starts
-  useEffect(() => {
-    if (gameState.currentMatch && !initialOdds) {
-      setInitialOdds({
-        home: gameState.currentMatch.homeOdds,
-        draw: gameState.currentMatch.drawOdds,
-        away: gameState.currentMatch.awayOdds
+  const { matchEngine } = gameState;
+  const matchTimer = matchEngine?.tick ?? 0;
+  const matchClock = getMatchClock(matchTimer, matchEngine?.stoppageTime ?? NO_STOPPAGE_TIME);
+  const isHalfTime = matchEngine?.period === 'half-time';
+  const matchStats = useMemo(() => getMatchStats(gameState.matchEvents), [gameState.matchEvents]);
+
+  // Pause the match and open the action betting modal for the given event
+  const openActionBetting = useCallback((event: ActionEvent) => {
+    const duration = event.marketId === 'penalty-scored' ? PENALTY_BETTING_SECONDS : ACTION_BETTING_SECONDS;
+    setIsMatchRunning(false);
+    setCurrentActionEvent(event);
+    setActionModalOpen(true);
+    setActionBettingTimer(duration);
+    setActionBettingDuration(duration);
+
+    // Start action betting countdown
+    actionTimerRef.current = setInterval(() => {
+      setActionBettingTimer(prev => {
+        if (prev <= 1) {
+          setActionModalOpen(false);
+          setCurrentActionEvent(null);
+          setIsMatchRunning(true);
+          if (actionTimerRef.current) {
+            clearInterval(actionTimerRef.current);
+          }
+          return duration;
+        }
+        return prev - 1;
       });
-    }
-  }, [gameState.currentMatch, initialOdds]);
-
-  // Dynamic odds calculation based on match state
-  const calculateDynamicOdds = useCallback((time: number, homeScore: number, awayScore: number) => {
-    if (!initialOdds || !gameState.currentMatch || isUpdatingScore.current || !isMatchRunning) return;
+    }, 1000);
+  }, []);
 
-    const timeRemaining = Math.max(0, 90 - time);
-    const scoreDifference = homeScore - awayScore;
-    const totalGoals = homeScore + awayScore;
-    
-    // Base odds adjustment factors
-    let homeMultiplier = 1;
-    let drawMultiplier = 1;
-    let awayMultiplier = 1;
-    
-    // Score-based adjustments
-    if (scoreDifference > 0) {
-      // Home team leading
-      homeMultiplier *= Math.max(0.4, 1 - (scoreDifference * 0.3));
-      awayMultiplier *= 1 + (scoreDifference * 0.4);
-      drawMultiplier *= 1 + (scoreDifference * 0.2);
-    } else if (scoreDifference < 0) {
-      // Away team leading
-      awayMultiplier *= Math.max(0.4, 1 - (Math.abs(scoreDifference) * 0.3));
-      homeMultiplier *= 1 + (Math.abs(scoreDifference) * 0.4);
-      drawMultiplier *= 1 + (Math.abs(scoreDifference) * 0.2);
-    }
-    
-    // Time-based adjustments (less time = harder to come back)
-    const timeWeight = timeRemaining / 90;
-    if (scoreDifference !== 0) {
-      const leadingMultiplier = Math.max(0.3, 0.8 + (1 - timeWeight) * 0.5);
-      const trailingMultiplier = 1 + (1 - timeWeight) * 0.8;
-      
-      if (scoreDifference > 0) {
-        homeMultiplier *= leadingMultiplier;
-        awayMultiplier *= trailingMultiplier;
-      } else {
-        awayMultiplier *= leadingMultiplier;
-        homeMultiplier *= trailingMultiplier;
+  const resolveAllBets = useCallback((finalState: MatchEngineState) => {
+    gameState.activeBets.forEach(bet => {
+      if (bet.type === 'full-match' && !bet.resolved) {
+        const result = settleSelection(getBetSelection(bet), finalState);
+        resolveBet(bet.id, result, getSettlementPayout(bet, result));
       }
-    }
-    
-    // High-scoring game adjustments (less likely for draws)
-    if (totalGoals >= 3) {
-      drawMultiplier *= 1 + (totalGoals - 2) * 0.15;
-    }
+    });
     
-    // Late game draw adjustments
-    if (scoreDifference === 0 && time > 75) {
-      drawMultiplier *= Math.max(0.7, 1 - (time - 75) / 30 * 0.3);
+    // Show match finished message and transition to summary
+    setTimeout(() => {
+      // Match finished
+      setTimeout(() => {
+        showMatchSummary();
+      }, 2000);
+    }, 1000);
+  }, [gameState.activeBets, resolveBet, showMatchSummary]);
+
+  // A match restored from a save made after full time still needs settling
+  useEffect(() => {
+    if (matchEngine?.finished) {
+      setIsMatchRunning(false);
+      resolveAllBets(matchEngine);
     }
+  }, []);
 
-    // Recent goal momentum (if last event was a goal within 5 minutes)
-    const recentGoalEvent = gameState.matchEvents
-      .filter(event => event.type === 'goal' && time - event.time <= 5)
-      .sort((a, b) => b.time - a.time)[0];
-    
-    if (recentGoalEvent) {
-      const momentumBoost = Math.max(0, (5 - (time - recentGoalEvent.time)) / 5 * 0.15);
-      if (recentGoalEvent.scoringTeam === 'home') {
-        homeMultiplier *= (1 - momentumBoost);
-        awayMultiplier *= (1 + momentumBoost * 0.5);
-      } else {
-        awayMultiplier *= (1 - momentumBoost);
-        homeMultiplier *= (1 + momentumBoost * 0.5);
+  // Drive the match engine one tick per second while the match is running
+  useEffect(() => {
+    if (!isMatchRunning || !matchEngine || matchEngine.finished) return;
+
+    const timeout = setTimeout(() => {
+      const { state, events } = stepMatch(matchEngine);
+      const applyTick = (match: MatchData): MatchData => ({ ...match, ...getMatchUpdate(state) });
+
+      updateGameState(prev => {
+        const currentMatch = prev.currentMatch && applyTick(prev.currentMatch);
+
+        // Standing auto cash-out rules are checked against every tick, at the new prices
+        const cashedOut = !currentMatch ? {} : prev.activeBets.reduce((current, bet) => {
+          const rule = getTriggeredAutoCashOut(bet, currentMatch, state.markets, events);
+          const cashOut = rule && createCashOut(bet, currentMatch, state.markets, 1, rule.type);
+          return cashOut ? applyCashOut(current, bet.id, cashOut) : current;
+        }, { activeBets: prev.activeBets, ledger: prev.ledger, wallet: prev.wallet });
+
+        return {
+          matchEngine: state,
+          currentMatch,
+          matchEvents: [...prev.matchEvents, ...events],
+          ...cashedOut
+        };
+      });
+
+      setIsUpdatingScore(events.some(event => event.type === 'goal'));
+
+      const actionEvent = events.find(event => event.type === 'action');
+      if (actionEvent && !state.finished) {
+        openActionBetting(actionEvent);
       }
-    }
 
-    // Calculate new odds (ensure minimums)
-    const newHomeOdds = Math.max(1.1, Math.round((initialOdds.home * homeMultiplier) * 10) / 10);
-    const newDrawOdds = Math.max(1.8, Math.round((initialOdds.draw * drawMultiplier) * 10) / 10);
-    const newAwayOdds = Math.max(1.1, Math.round((initialOdds.away * awayMultiplier) * 10) / 10);
+      if (state.finished) {
+        setIsMatchRunning(false);
+        resolveAllBets(state);
+      }
+    }, getTickDelay(matchEngine.period));
 
-    // Update odds if they've changed significantly (by at least 0.1)
-    if (Math.abs(newHomeOdds - gameState.currentMatch.homeOdds) >= 0.1 ||
-        Math.abs(newDrawOdds - gameState.currentMatch.drawOdds) >= 0.1 ||
-        Math.abs(newAwayOdds - gameState.currentMatch.awayOdds) >= 0.1) {
-      
-      updateGameState({
-        currentMatch: {
-          ...gameState.currentMatch,
-          homeOdds: newHomeOdds,
-          drawOdds: newDrawOdds,
-          awayOdds: newAwayOdds
-        }
-      });
-    }
-  }, [initialOdds, gameState.currentMatch, gameState.matchEvents, updateGameState]);
+    return () => clearTimeout(timeout);
+  }, [isMatchRunning, matchEngine, updateGameState, openActionBetting, resolveAllBets]);
 
+  // Settle action markets from the incidents in the match feed
   useEffect(() => {
-    if (isMatchRunning && matchTimer < 90) {
-      intervalRef.current = setInterval(() => {
-        setMatchTimer(prev => {
-          const newTime = prev + 1;
-          
-          // Generate kick-off event
-          if (newTime === 1) {
-            generateKickOffEvent();
-          }
-          
-          // Generate additional early excitement events
-          if (newTime === 3) {
-            const earlyEvent: ActionEvent = {
-              id: Date.now().toString(),
-              time: newTime,
-              type: 'commentary',
-              description: `🏃‍♂️ Both teams look sharp in these opening exchanges!`
-            };
-            updateGameState({
-              matchEvents: [...gameState.matchEvents, earlyEvent]
-            });
+    if (!matchEngine) return;
+
+    const settlements = gameState.matchEvents
+      .filter(event => event.type === 'action' && !event.resolved)
+      .map(event => ({
+        event,
+        settlement: settleActionEvent(event, gameState.matchEvents, matchEngine.tick, matchEngine.finished)
+      }))
+      .filter((entry): entry is { event: ActionEvent; settlement: ActionMarketSettlement } => entry.settlement !== null);
+
+    if (settlements.length === 0) return;
+
+    const results = new Map(settlements.map(({ event, settlement }) => [
+      event.id,
+      settlement.status === 'settled' ? settlement.outcome : 'void'
+    ]));
+
+    updateGameState(prev => ({
+      matchEvents: prev.matchEvents.map(event =>
+        results.has(event.id)
+          ? { ...event, resolved: true, result: results.get(event.id) }
+          : event
+      )
+    }));
+
+    settlements.forEach(({ event, settlement }) => {
+      gameState.activeBets
+        .filter(bet => bet.type === 'action' && bet.eventId === event.id && !bet.resolved)
+        .forEach(bet => {
+          if (settlement.status === 'void') {
+            // No qualifying incident before full time - return the stake
+            resolveBet(bet.id, 'void', bet.amount);
+            return;
           }
-          
-          if (newTime === 8) {
-            const earlyEvent: ActionEvent = {
-              id: Date.now().toString(),
-              time: newTime,
-              type: 'commentary',
-              description: `⚡ The pace is picking up - this promises to be an exciting match!`
-            };
-            updateGameState({
-              matchEvents: [...gameState.matchEvents, earlyEvent]
-            });
-          }
-          
-          // Generate random events with higher frequency for excitement
-          const eventChance = newTime < 15 ? 0.15 : // 15% chance in first 15 seconds for initial excitement
-                             newTime > 75 ? 0.12 : // 12% chance in final 15 minutes for drama
-                             0.08; // 8% chance normally (much higher than before)
-          
-          if (Math.random() < eventChance) {
-            generateRandomEvent(newTime);
-          }
-          
-          // Update dynamic odds every 20 seconds (less frequent to avoid conflicts)
-          if (newTime % 20 === 0 && !isUpdatingScore.current) {
-            // Direct call without setTimeout to avoid stale closures
-            calculateDynamicOdds(newTime, gameState.currentMatch?.homeScore || 0, gameState.currentMatch?.awayScore || 0);
-          }
-          
-          // Check if match is finished
-          if (newTime >= 90) {
-            setIsMatchRunning(false);
-            resolveAllBets(newTime);
-            return 90;
-          }
-          
-          return newTime;
-        });
-      }, 1000);
-    }
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, [isMatchRunning, matchTimer, calculateDynamicOdds]);
+          const won = bet.outcome === settlement.outcome;
+          const multiplier = bet.powerUpApplied ? 2 : 1;
+          resolveBet(bet.id, won ? 'won' : 'lost', won ? bet.amount * bet.odds * multiplier : 0);
 
-  const generateKickOffEvent = useCallback(() => {
-    const kickOffEvent: ActionEvent = {
-      id: Date.now().toString(),
-      time: 0,
-      type: 'commentary',
-      description: `⚽ The match is underway! ${gameState.currentMatch!.homeTeam} vs ${gameState.currentMatch!.awayTeam} kicks off!`
-    };
-    
-    updateGameState({
-      matchEvents: [...gameState.matchEvents, kickOffEvent]
-    });
-  }, [gameState.currentMatch, gameState.matchEvents, updateGameState]);
-
-  const generateRandomEvent = useCallback((time: number) => {
-    // Weight the event types for more excitement - more commentary and action betting
-    const eventTypes = ['goal', 'action', 'action', 'commentary', 'commentary', 'commentary'];
-    const eventType = eventTypes[Math.floor(Math.random() * eventTypes.length)] as ActionEvent['type'];
-    
-    let newEvent: ActionEvent;
-    
-    if (eventType === 'goal') {
-      const scoringTeam = Math.random() < 0.5 ? 'home' : 'away';
-      newEvent = {
-        id: Date.now().toString(),
-        time,
-        type: 'goal',
-        description: `GOAL! ${scoringTeam === 'home' ? gameState.currentMatch!.homeTeam : gameState.currentMatch!.awayTeam} scores!`,
-        scoringTeam
-      };
-      
-      // Set flag to prevent odds calculation during score update
-      isUpdatingScore.current = true;
-      
-      // Update score and match events together
-      const newHomeScore = scoringTeam === 'home' ? gameState.currentMatch!.homeScore + 1 : gameState.currentMatch!.homeScore;
-      const newAwayScore = scoringTeam === 'away' ? gameState.currentMatch!.awayScore + 1 : gameState.currentMatch!.awayScore;
-      
-      // Update both score and events in a single state update
-      updateGameState({
-        currentMatch: {
-          ...gameState.currentMatch!,
-          homeScore: newHomeScore,
-          awayScore: newAwayScore
-        },
-        matchEvents: [...gameState.matchEvents, newEvent]
-      });
-      
-      // Update odds after a brief delay, then clear the flag
-      setTimeout(() => {
-        calculateDynamicOdds(time, newHomeScore, newAwayScore);
-        isUpdatingScore.current = false;
-      }, 100);
-      
-      // Don't update events again below since we already did it
-      return;
-    } else if (eventType === 'action') {
-      // Enhanced variety of action betting opportunities
-      const actionBettingTypes = [
-        // Card-related bets
-        {
-          description: "Will there be a card in the next 30 seconds?",
-          options: [
-            { label: 'Yes', odds: 2.1, outcome: 'yes' },
-            { label: 'No', odds: 1.8, outcome: 'no' }
-          ]
-        },
-        {
-          description: "Will the next card be shown to the home team?",
-          options: [
-            { label: 'Home Team', odds: 2.0, outcome: 'home' },
-            { label: 'Away Team', odds: 2.0, outcome: 'away' }
-          ]
-        },
-        
-        // Corner kick bets
-        {
-          description: "Will there be a corner kick in the next 45 seconds?",
-          options: [
-            { label: 'Yes', odds: 2.3, outcome: 'yes' },
-            { label: 'No', odds: 1.6, outcome: 'no' }
-          ]
-        },
-        {
-          description: "Which team will win the next corner kick?",
-          options: [
-            { label: gameState.currentMatch!.homeTeam, odds: 1.9, outcome: 'home' },
-            { label: gameState.currentMatch!.awayTeam, odds: 1.9, outcome: 'away' }
-          ]
-        },
-        
-        // Shot attempts
-        {
-          description: "Will there be a shot on target in the next 60 seconds?",
-          options: [
-            { label: 'Yes', odds: 1.7, outcome: 'yes' },
-            { label: 'No', odds: 2.2, outcome: 'no' }
-          ]
-        },
-        {
-          description: "Which team will have the next shot attempt?",
-          options: [
-            { label: gameState.currentMatch!.homeTeam, odds: 1.8, outcome: 'home' },
-            { label: gameState.currentMatch!.awayTeam, odds: 2.1, outcome: 'away' }
-          ]
-        },
-        
-        // Possession and play style
-        {
-          description: "Will the ball go out of play in the next 20 seconds?",
-          options: [
-            { label: 'Yes', odds: 1.9, outcome: 'yes' },
-            { label: 'No', odds: 1.9, outcome: 'no' }
-          ]
-        },
-        {
-          description: "Will there be a throw-in in the next 30 seconds?",
-          options: [
-            { label: 'Yes', odds: 2.0, outcome: 'yes' },
-            { label: 'No', odds: 1.8, outcome: 'no' }
-          ]
-        },
-        
-        // Goalkeeper actions
-        {
-          description: "Will the goalkeeper make a save in the next 45 seconds?",
-          options: [
-            { label: 'Home GK', odds: 2.5, outcome: 'home' },
-            { label: 'Away GK', odds: 2.5, outcome: 'away' },
-            { label: 'Neither', odds: 1.5, outcome: 'neither' }
-          ]
-        },
-        {
-          description: "Will there be a goalkeeper kick in the next 30 seconds?",
-          options: [
-            { label: 'Yes', odds: 1.6, outcome: 'yes' },
-            { label: 'No', odds: 2.3, outcome: 'no' }
-          ]
-        },
-        
-        // Free kicks and fouls
-        {
-          description: "Will there be a free kick awarded in the next 40 seconds?",
-          options: [
-            { label: 'Yes', odds: 2.0, outcome: 'yes' },
-            { label: 'No', odds: 1.8, outcome: 'no' }
-          ]
-        },
-        {
-          description: "Which half of the pitch will the next foul occur in?",
-          options: [
-            { label: 'Home Half', odds: 1.9, outcome: 'home-half' },
-            { label: 'Away Half', odds: 1.9, outcome: 'away-half' }
-          ]
-        },
-        
-        // Substitution bets (later in the match)
-        ...(time > 60 ? [{
-          description: "Will there be a substitution in the next 2 minutes?",
-          options: [
-            { label: 'Yes', odds: 2.8, outcome: 'yes' },
-            { label: 'No', odds: 1.4, outcome: 'no' }
-          ]
-        }] : []),
-        
-        // Offside calls
-        {
-          description: "Will there be an offside call in the next 50 seconds?",
-          options: [
-            { label: 'Yes', odds: 2.4, outcome: 'yes' },
-            { label: 'No', odds: 1.6, outcome: 'no' }
-          ]
-        },
-        
-        // Next goal scorer (if match is active)
-        ...(time > 15 && time < 80 && (gameState.currentMatch!.homeScore + gameState.currentMatch!.awayScore) < 4 ? [{
-          description: "Who will score the next goal?",
-          options: [
-            { label: gameState.currentMatch!.homeTeam, odds: 2.1, outcome: 'home' },
-            { label: gameState.currentMatch!.awayTeam, odds: 2.3, outcome: 'away' },
-            { label: 'No Goal', odds: 1.8, outcome: 'no-goal' }
-          ]
-        }] : []),
-        
-        // Time-based events
-        {
-          description: "Will the referee check his watch in the next 25 seconds?",
-          options: [
-            { label: 'Yes', odds: 2.6, outcome: 'yes' },
-            { label: 'No', odds: 1.5, outcome: 'no' }
-          ]
-        },
-        
-        // Crowd and atmosphere
-        {
-          description: "Will there be a notable crowd reaction in the next 35 seconds?",
-          options: [
-            { label: 'Yes', odds: 1.9, outcome: 'yes' },
-            { label: 'No', odds: 1.9, outcome: 'no' }
-          ]
-        }
-      ];
-      
-      // Select random action betting type
-      const selectedActionBet = actionBettingTypes[Math.floor(Math.random() * actionBettingTypes.length)];
-      
-      newEvent = {
-        id: Date.now().toString(),
-        time,
-        type: 'action',
-        description: selectedActionBet.description,
-        bettingOptions: selectedActionBet.options
-      };
-      
-      // Pause match and open action betting modal
-      setIsMatchRunning(false);
-      setCurrentActionEvent(newEvent);
-      setActionModalOpen(true);
-      setActionBettingTimer(15);
-      
-      // Start action betting countdown
-      actionTimerRef.current = setInterval(() => {
-        setActionBettingTimer(prev => {
-          if (prev <= 1) {
-            setActionModalOpen(false);
-            setCurrentActionEvent(null);
-            setIsMatchRunning(true);
-            if (actionTimerRef.current) {
-              clearInterval(actionTimerRef.current);
-            }
-            return 15;
+          if (won && !gameState.classicMode) {
+            awardPowerUp();
           }
-          return prev - 1;
         });
-      }, 1000);
-    } else {
-      // Time-based commentary for more excitement
-      const earlyGameCommentary = [
-        `⚡ Fast-paced start to this match!`,
-        `🏃‍♂️ ${gameState.currentMatch!.homeTeam} pressing high early on!`,
-        `🔥 ${gameState.currentMatch!.awayTeam} looking to settle into their rhythm.`,
-        `👏 Great energy from both sides in these opening minutes!`,
-        `⚽ Early chances being created here!`,
-        `🎯 Both teams testing each other out.`,
-        `🚀 The tempo is electric from the start!`
-      ];
-      
-      const midGameCommentary = [
-        `💪 Great play by ${gameState.currentMatch!.homeTeam}!`,
-        `⚡ ${gameState.currentMatch!.awayTeam} looking dangerous on the counter-attack!`,
-        `🙌 The crowd is on their feet!`,
-        `🥅 What a save by the goalkeeper!`,
-        `👨‍⚖️ Close call from the referee there.`,
-        `🔥 Both teams giving their all in this intense match!`,
-        `🏃‍♂️ End-to-end action here!`,
-        `⚽ Brilliant ball control on display!`,
-        `🎯 The pressure is building!`,
-        `💥 What a tackle!`,
-        `🚀 Quick passing move there!`,
-        `👏 The quality of play is impressive!`,
-        `⚡ Lightning-fast counter attack!`,
-        `🔥 The intensity is rising!`,
-        `🎭 Skillful play from both sides!`
-      ];
-      
-      const lateGameCommentary = [
-        `⏰ Time is running out!`,
-        `🔥 The tension is palpable!`,
-        `💥 Every second counts now!`,
-        `🚨 Desperate defending here!`,
-        `⚡ Final push from both teams!`,
-        `🎯 This could be decisive!`,
-        `💪 Last-ditch effort!`,
-        `🙏 Nerves of steel required!`,
-        `⏳ The clock is ticking!`,
-        `🔥 All or nothing now!`,
-        `🎭 Drama in the final minutes!`,
-        `💥 What a crucial moment!`
-      ];
-      
-      const commentaryPool = time < 15 ? earlyGameCommentary :
-                           time > 75 ? lateGameCommentary :
-                           midGameCommentary;
-      
-      newEvent = {
-        id: Date.now().toString(),
-        time,
-        type: 'commentary',
-        description: commentaryPool[Math.floor(Math.random() * commentaryPool.length)]
-      };
-    }
-    
-    // Only update match events if we haven't already done so (for non-goal events)
-    updateGameState({
-      matchEvents: [...gameState.matchEvents, newEvent]
     });
-  }, [gameState.currentMatch, gameState.matchEvents, updateGameState, calculateDynamicOdds]);
+  }, [matchEngine]);
 
-  const resolveAllBets = (finalTime: number) => {
-    const finalScore = gameState.currentMatch!;
-    let winner: 'home' | 'draw' | 'away';
-    
-    if (finalScore.homeScore > finalScore.awayScore) {
-      winner = 'home';
-    } else if (finalScore.awayScore > finalScore.homeScore) {
-      winner = 'away';
-    } else {
-      winner = 'draw';
+  const handleCashOut = (bet: Bet, fraction: number) => {
+    if (!matchEngine) return;
+
+    const cashOut = createCashOut(bet, gameState.currentMatch, matchEngine.markets, fraction);
+    if (cashOut) {
+      cashOutBet(bet.id, cashOut);
     }
-    
-    gameState.activeBets.forEach(bet => {
-      if (bet.type === 'full-match' && !bet.resolved) {
-        const won = bet.outcome === winner;
-        const payout = won ? bet.amount * bet.odds : 0;
-        resolveBet(bet.id, won, payout);
-        
-        if (won) {
-          // Match bet won
-        } else {
-          // Match bet lost
-        }
-      }
-    });
-    
-    // Show match finished message and transition to summary
-    setTimeout(() => {
-      // Match finished
-      setTimeout(() => {
-        showMatchSummary();
-      }, 2000);
-    }, 1000);
+  };
+
+  const handleSetAutoCashOut = (betId: string, rules: AutoCashOutRule[]) => {
+    updateGameState(prev => ({
+      activeBets: prev.activeBets.map(bet => bet.id === betId ? { ...bet, autoCashOut: rules } : bet)
+    }));
   };
 
   const handleActionBet = (outcome: string, odds: number, amount: number) => {
@@ -605,36 +288,7 @@ export function Match({
       // Power-up applied
     }
     
-    // Resolve action bet after a short delay
-    setTimeout(() => {
-      const won = Math.random() < 0.6; // 60% chance to win
-      const multiplier = bet.powerUpApplied ? 2 : 1;
-      const basePayout = won ? bet.amount * bet.odds : 0;
-      const finalPayout = basePayout * multiplier;
-      
-      resolveBet(bet.id, won, finalPayout);
-      
-      // Also resolve the action event with the result
-      if (currentActionEvent) {
-        const result = won ? bet.outcome : (bet.outcome === 'yes' ? 'no' : 'yes');
-        updateGameState({
-          matchEvents: gameState.matchEvents.map(event => 
-            event.id === currentActionEvent.id 
-              ? { ...event, resolved: true, result }
-              : event
-          )
-        });
-      }
-      
-      if (won) {
-        // Action bet won
-        if (!gameState.classicMode) {
-          awardPowerUp();
-        }
-      } else {
-        // Action bet lost
-      }
-    }, 3000);
+    // The bet is settled once the engine has played out the market's window
   };
 
   // Direct bet placement function for StickyBettingDrawer
@@ -658,7 +312,9 @@ export function Match({
     const bet: Bet = {
       id: Date.now().toString(),
       type: 'full-match',
+      marketId: selection.marketId,
       outcome: selection.outcome,
+      line: selection.line,
       odds: selection.odds,
       amount: betAmount,
       timestamp: Date.now(),
@@ -697,7 +353,9 @@ export function Match({
     const bet: Bet = {
       id: Date.now().toString(),
       type: 'full-match',
+      marketId: selection.marketId,
       outcome: selection.outcome,
+      line: selection.line,
       odds: selection.odds,
       amount: betAmount,
       timestamp: Date.now(),
@@ -715,52 +373,34 @@ export function Match({
 
   if (!gameState.currentMatch) return null;
 
-  const formatMatchTime = (minutes: number): string => {
-    // Convert 0-based timer to 1-based display (0 becomes 1, 89 becomes 90)
-    const displayMinutes = Math.min(minutes + 1, 90);
-    return `${displayMinutes}'`;
-  };
-
-  const progressPercentage = (matchTimer / 90) * 100;
+  const progressPercentage = Math.min(100, (matchClock.minute / MATCH_DURATION) * 100);
 
   // Debug functions for manually triggering events
   const handleDebugActionBet = () => {
     if (isMatchRunning) {
+      // Offer a real market so the debug bet settles like any other
+      const [market] = getAvailableActionMarkets({
+        time: matchClock.minute,
+        homeTeam: gameState.currentMatch!.homeTeam,
+        awayTeam: gameState.currentMatch!.awayTeam,
+        homeScore: gameState.currentMatch!.homeScore,
+        awayScore: gameState.currentMatch!.awayScore,
+        expectedGoals: matchEngine!.expectedGoals
+      });
       const debugEvent: ActionEvent = {
         id: `debug-${Date.now()}`,
         time: matchTimer,
         type: 'action',
-        description: '🧪 Debug Action Event - Manual trigger for testing betting interface',
-        bettingOptions: [
-          { label: 'Yes', odds: 2.1, outcome: 'yes' },
-          { label: 'No', odds: 1.8, outcome: 'no' }
-        ]
+        description: `🧪 Debug: ${market.description}`,
+        bettingOptions: market.options,
+        marketId: market.id
       };
       
-      updateGameState({
-        matchEvents: [...gameState.matchEvents, debugEvent]
-      });
-      
-      setIsMatchRunning(false);
-      setCurrentActionEvent(debugEvent);
-      setActionModalOpen(true);
-      setActionBettingTimer(15);
+      updateGameState(prev => ({
+        matchEvents: [...prev.matchEvents, debugEvent]
+      }));
       
-      // Start countdown timer for this action
-      actionTimerRef.current = setInterval(() => {
-        setActionBettingTimer(prev => {
-          if (prev <= 1) {
-            setActionModalOpen(false);
-            setCurrentActionEvent(null);
-            setIsMatchRunning(true);
-            if (actionTimerRef.current) {
-              clearInterval(actionTimerRef.current);
-            }
-            return 15;
-          }
-          return prev - 1;
-        });
-      }, 1000);
+      openActionBetting(debugEvent);
     }
   };
 
@@ -834,6 +474,10 @@ export function Match({
           activeBets={gameState.activeBets}
           powerUpAvailable={!!gameState.powerUp}
           onUsePowerUp={(betId) => usePowerUp(betId)}
+          getCashOutValue={(bet) => matchEngine && getCashOutValue(bet, gameState.currentMatch, matchEngine.markets)}
+          cashOutSuspended={isUpdatingScore}
+          onCashOut={handleCashOut}
+          onSetAutoCashOut={handleSetAutoCashOut}
         />
 
         {/* Match info card */}
@@ -847,7 +491,7 @@ export function Match({
                 </Badge>
                 <div className="flex items-center gap-1 text-gray-300 text-xs">
                   <Clock size={12} />
-                  {formatMatchTime(matchTimer)}
+                  {matchEngine ? formatLiveClock(matchEngine) : formatMatchClock(matchClock)}
                 </div>
               </div>
             </div>
@@ -865,6 +509,23 @@ export function Match({
                 </div>
               </div>
 
+              {gameState.currentMatch.regularTimeScore && (
+                <p className="text-gray-400 text-xs">
+                  90 mins {gameState.currentMatch.regularTimeScore.homeScore}-{gameState.currentMatch.regularTimeScore.awayScore}
+                  {matchEngine?.period === 'extra-time-break' && ' - extra time kicks off shortly'}
+                </p>
+              )}
+
+              {isHalfTime ? (
+                <p className="text-yellow-300 text-xs font-medium">
+                  Half-time - the second half kicks off shortly
+                </p>
+              ) : !gameState.currentMatch.regularTimeScore && gameState.currentMatch.halfTimeScore && (
+                <p className="text-gray-400 text-xs">
+                  HT {gameState.currentMatch.halfTimeScore.homeScore}-{gameState.currentMatch.halfTimeScore.awayScore}
+                </p>
+              )}
+
               <Progress value={progressPercentage} className="w-full h-2" />
             </div>
           </CardContent>
@@ -913,12 +574,40 @@ export function Match({
             </Card>
           </CollapsibleTrigger>
           <CollapsibleContent>
-            <MatchEvents 
-              events={gameState.matchEvents} 
-              currentTime={matchTimer}
-              activeBets={gameState.activeBets}
-              simplified={true}
-            />
+            <div className="flex gap-2 px-4 pt-1 pb-2 backdrop-blur-md bg-card/60 border-x border-border/50">
+              {([['events', 'Events'], ['stats', 'Stats']] as const).map(([tab, label]) => (
+                <button
+                  key={tab}
+                  onClick={() => setCommentaryTab(tab)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                    commentaryTab === tab
+                      ? 'bg-sidebar-primary/30 border-sidebar-primary/60 text-foreground'
+                      : 'bg-transparent border-sidebar-primary/20 text-muted-foreground hover:text-foreground hover:border-sidebar-primary/40'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {commentaryTab === 'events' ? (
+              <MatchEvents 
+                events={gameState.matchEvents} 
+                currentTime={matchTimer}
+                formatTime={time => matchEngine ? formatEventTime(time, matchEngine) : `${time}'`}
+                activeBets={gameState.activeBets}
+                simplified={true}
+              />
+            ) : (
+              <Card className="backdrop-blur-sm bg-card/60 border-border/50 rounded-t-none border-t-0">
+                <CardContent className="px-4 py-4">
+                  <MatchStatsTable
+                    stats={matchStats}
+                    homeTeam={gameState.currentMatch.homeTeam}
+                    awayTeam={gameState.currentMatch.awayTeam}
+                  />
+                </CardContent>
+              </Card>
+            )}
           </CollapsibleContent>
         </Collapsible>
       </div>
@@ -938,6 +627,7 @@ export function Match({
         gameState={gameState}
         onPlaceBet={handleActionBet}
         timeLeft={actionBettingTimer}
+        duration={actionBettingDuration}
       />
 
       {/* Sticky betting drawer at bottom */}
@@ -3,24 +3,65 @@ import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { ScrollArea } from './ui/scroll-area';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
-import { Clock, MessageSquare, Target, Zap, TrendingUp, TrendingDown, ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  AlertTriangle,
+  ArrowLeftRight,
+  Ban,
+  ChevronDown,
+  CheckCircle,
+  ChevronRight,
+  Clock,
+  Crosshair,
+  Flag,
+  Footprints,
+  Hand,
+  Megaphone,
+  MessageSquare,
+  MoveUp,
+  Repeat,
+  Square,
+  Target,
+  TrendingDown,
+  TrendingUp,
+  Watch,
+  XCircle,
+  Zap
+} from 'lucide-react';
 import { ActionEvent, Bet } from '../App';
+import { IncidentEventType } from './utils/matchEngine';
+import { PlayerId, getPlayer } from './utils/squads';
+
+// Icon and badge for each kind of incident in the feed
+const INCIDENT_STYLES: Record<IncidentEventType, { icon: React.ReactNode; badge: string; className: string }> = {
+  'penalty-scored': { icon: <CheckCircle className="text-green-400" size={16} />, badge: 'PENALTY', className: 'border-green-400/30 text-green-300' },
+  'penalty-missed': { icon: <XCircle className="text-red-400" size={16} />, badge: 'PENALTY', className: 'border-red-400/30 text-red-300' },
+  'shot': { icon: <Crosshair className="text-sky-400" size={16} />, badge: 'SHOT', className: 'border-sky-400/30 text-sky-300' },
+  'shot-on-target': { icon: <Target className="text-sky-300" size={16} />, badge: 'ON TARGET', className: 'border-sky-400/30 text-sky-300' },
+  'save': { icon: <Hand className="text-emerald-400" size={16} />, badge: 'SAVE', className: 'border-emerald-400/30 text-emerald-300' },
+  'corner': { icon: <Flag className="text-amber-400" size={16} />, badge: 'CORNER', className: 'border-amber-400/30 text-amber-300' },
+  'throw-in': { icon: <ArrowLeftRight className="text-gray-400" size={16} />, badge: 'THROW-IN', className: 'border-white/20 text-gray-300' },
+  'goal-kick': { icon: <MoveUp className="text-gray-400" size={16} />, badge: 'GOAL KICK', className: 'border-white/20 text-gray-300' },
+  'foul': { icon: <AlertTriangle className="text-orange-400" size={16} />, badge: 'FOUL', className: 'border-orange-400/30 text-orange-300' },
+  'free-kick': { icon: <Footprints className="text-gray-400" size={16} />, badge: 'FREE KICK', className: 'border-white/20 text-gray-300' },
+  'card': { icon: <Square className="text-yellow-400 fill-yellow-400" size={16} />, badge: 'CARD', className: 'border-yellow-400/40 text-yellow-300' },
+  'offside': { icon: <Ban className="text-red-400" size={16} />, badge: 'OFFSIDE', className: 'border-red-400/30 text-red-300' },
+  'substitution': { icon: <Repeat className="text-teal-400" size={16} />, badge: 'SUB', className: 'border-teal-400/30 text-teal-300' },
+  'watch-check': { icon: <Watch className="text-gray-400" size={16} />, badge: 'REF', className: 'border-white/20 text-gray-300' },
+  'crowd-reaction': { icon: <Megaphone className="text-pink-400" size={16} />, badge: 'CROWD', className: 'border-pink-400/30 text-pink-300' }
+};
 
 interface MatchEventsProps {
   events: ActionEvent[];
   currentTime: number;
+  formatTime: (time: number) => string; // Match minute an event happened in
   activeBets: Bet[];
   simplified?: boolean;
 }
 
-export function MatchEvents({ events, currentTime, activeBets, simplified = false }: MatchEventsProps) {
+export function MatchEvents({ events, currentTime, formatTime, activeBets, simplified = false }: MatchEventsProps) {
   const [isOpen, setIsOpen] = useState(false);
-  
-  const formatTime = (seconds: number): string => {
-    return `${seconds}s`;
-  };
 
-  const getEventIcon = (type: string) => {
+  const getEventIcon = (type: ActionEvent['type']) => {
     switch (type) {
       case 'goal':
         return <Target className="text-green-500" size={16} />;
@@ -29,7 +70,7 @@ export function MatchEvents({ events, currentTime, activeBets, simplified = fals
       case 'commentary':
         return <MessageSquare className="text-blue-500" size={16} />;
       default:
-        return <Clock className="text-muted-foreground" size={16} />;
+        return INCIDENT_STYLES[type]?.icon ?? <Clock className="text-muted-foreground" size={16} />;
     }
   };
 
@@ -41,8 +82,10 @@ export function MatchEvents({ events, currentTime, activeBets, simplified = fals
         return <Badge variant="default" className="text-xs">BET</Badge>;
       case 'commentary':
         return <Badge variant="secondary" className="text-xs">INFO</Badge>;
-      default:
-        return null;
+      default: {
+        const style = INCIDENT_STYLES[event.type];
+        return style ? <Badge variant="outline" className={`text-xs ${style.className}`}>{style.badge}</Badge> : null;
+      }
     }
   };
 
@@ -83,6 +126,17 @@ export function MatchEvents({ events, currentTime, activeBets, simplified = fals
   // Get the most recent event for collapsed view
   const mostRecentEvent = pastEvents[0];
 
+  // Shirt number, name and position of the player involved
+  const renderScorer = (playerId: PlayerId) => {
+    const scorer = getPlayer(playerId);
+    if (!scorer) return null;
+    return (
+      <span className="text-xs text-gray-400 truncate">
+        #{scorer.number} {scorer.name} ({scorer.position})
+      </span>
+    );
+  };
+
   // Helper function to render an event item
   const renderEventItem = (event: ActionEvent, isCompact: boolean = false) => (
     <div key={event.id} className={`border border-white/10 rounded-lg p-3 ${isCompact ? 'border-transparent bg-transparent p-0' : 'bg-gradient-to-r from-slate-800/20 to-slate-700/20'}`}>
@@ -96,6 +150,7 @@ export function MatchEvents({ events, currentTime, activeBets, simplified = fals
               {formatTime(event.time)}
             </span>
             {getEventBadge(event)}
+            {event.playerId && renderScorer(event.playerId)}
           </div>
           <p className="text-sm text-gray-300">
             {event.description}
@@ -117,7 +172,9 @@ export function MatchEvents({ events, currentTime, activeBets, simplified = fals
       {!isCompact && event.resolved && event.result && (
         <div className="ml-6 mt-2">
           <Badge variant="outline" className="text-xs border-green-400/30 text-green-300">
-            Result: {event.result}
+            Result: {event.result === 'void'
+              ? 'Void'
+              : event.bettingOptions?.find(option => option.outcome === event.result)?.label ?? event.result}
           </Badge>
         </div>
       )}
@@ -145,7 +202,11 @@ export function MatchEvents({ events, currentTime, activeBets, simplified = fals
               </div>
               {userBet.resolved && (
                 <div className="flex items-center gap-1">
-                  {userBet.won ? (
+                  {userBet.result === 'void' ? (
+                    <Badge variant="outline" className="bg-gray-500/20 border-gray-400/30 text-gray-300 text-xs">
+                      Void • stake returned
+                    </Badge>
+                  ) : userBet.won ? (
                     <>
                       <TrendingUp size={12} className="text-green-400" />
                       <Badge variant="outline" className="bg-green-500/20 border-green-400/30 text-green-300 text-xs">
@@ -0,0 +1,45 @@
+import React from 'react';
+import { MATCH_STAT_ROWS, MatchStats } from './utils/matchStats';
+
+interface MatchStatsTableProps {
+  stats: MatchStats;
+  homeTeam: string;
+  awayTeam: string;
+}
+
+/**
+ * Side-by-side team stats, each row with a bar split by the two sides' share.
+ */
+export function MatchStatsTable({ stats, homeTeam, awayTeam }: MatchStatsTableProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between text-xs font-medium">
+        <span className="text-blue-300 truncate">{homeTeam}</span>
+        <span className="text-red-300 truncate text-right">{awayTeam}</span>
+      </div>
+
+      {MATCH_STAT_ROWS.map(({ key, label, format }) => {
+        const home = stats.home[key];
+        const away = stats.away[key];
+
+        return (
+          <div key={key} className="space-y-1">
+            <div className="flex justify-between text-xs">
+              <span className="text-white font-medium">{format ? format(home) : home}</span>
+              <span className="text-gray-400">{label}</span>
+              <span className="text-white font-medium">{format ? format(away) : away}</span>
+            </div>
+            <div className="flex h-1.5 rounded-full overflow-hidden bg-white/10">
+              {home + away > 0 && (
+                <>
+                  <div className="bg-blue-400/80" style={{ width: `${home / (home + away) * 100}%` }} />
+                  <div className="bg-red-400/80 flex-1" />
+                </>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
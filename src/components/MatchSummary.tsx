@@ -4,6 +4,16 @@ import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Separator } from './ui/separator';
 import { Header } from './Header';
+import { AccumulatorLegs } from './AccumulatorLegs';
+import { SystemBetLines } from './SystemBetLines';
+import { CashOutHistory } from './CashOutHistory';
+import { ResultGrids } from './ResultGrids';
+import { MatchStatsTable } from './MatchStatsTable';
+import { getTotalReturn } from './utils/cashOut';
+import { getBetSelection, getMarketId, getSelectionLabel } from './utils/matchMarkets';
+import { BET_RESULT_LABELS, isStakeReturned } from './utils/betSettlement';
+import { Player, getPlayer } from './utils/squads';
+import { getMatchStats } from './utils/matchStats';
 import { GameState, Bet, MatchData } from '../App';
 import { 
   Trophy, 
@@ -43,16 +53,35 @@ export function MatchSummary({ gameState, resetForNewMatch }: MatchSummaryProps)
     return null;
   }
 
+  // System bet lines are listed under their system bet, which carries their total stake
+  const summaryBets = completedBets.filter(bet => !bet.parentId);
+  const getSystemLines = (bet: Bet) => completedBets.filter(line => line.parentId === bet.id);
+
   // Calculate summary statistics
-  const totalBets = completedBets.length;
-  const wonBets = completedBets.filter(bet => bet.won).length;
-  const lostBets = completedBets.filter(bet => !bet.won).length;
-  const totalStaked = completedBets.reduce((sum, bet) => sum + bet.amount, 0);
-  const totalWinnings = completedBets.reduce((sum, bet) => sum + (bet.payout || 0), 0);
+  const totalBets = summaryBets.length;
+  const wonBets = summaryBets.filter(bet => bet.won).length;
+  const lostBets = summaryBets.filter(bet => bet.resolved && !bet.won && !isStakeReturned(bet.result)).length;
+  const totalStaked = summaryBets.reduce((sum, bet) => sum + bet.amount, 0);
+  const totalWinnings = summaryBets.reduce((sum, bet) => sum + getTotalReturn(bet), 0);
   const netResult = totalWinnings - totalStaked;
   const hadWins = wonBets > 0;
 
+  const scorers = (completedMatch.goalscorers ?? [])
+    .map(id => id && getPlayer(id))
+    .filter((player): player is Player => !!player);
+
   const formatMatchResult = () => {
+    const { penaltyScore, regularTimeScore } = completedMatch;
+    if (penaltyScore) {
+      const winner = completedMatch.winner === 'home' ? completedMatch.homeTeam : completedMatch.awayTeam;
+      const { homeScore, awayScore } = penaltyScore;
+      return `${winner} won ${Math.max(homeScore, awayScore)}-${Math.min(homeScore, awayScore)} on penalties (${completedMatch.homeScore}-${completedMatch.awayScore} aet)`;
+    }
+    if (regularTimeScore) {
+      const { homeScore, awayScore } = completedMatch;
+      const winner = homeScore > awayScore ? completedMatch.homeTeam : completedMatch.awayTeam;
+      return `${winner} won ${Math.max(homeScore, awayScore)}-${Math.min(homeScore, awayScore)} after extra time`;
+    }
     if (completedMatch.homeScore > completedMatch.awayScore) {
       return `${completedMatch.homeTeam} won ${completedMatch.homeScore}-${completedMatch.awayScore}`;
     } else if (completedMatch.awayScore > completedMatch.homeScore) {
@@ -74,10 +103,16 @@ export function MatchSummary({ gameState, resetForNewMatch }: MatchSummaryProps)
   };
 
   const getBetDescription = (bet: Bet) => {
-    if (bet.type === 'full-match') {
+    if (bet.type === 'full-match' && getMarketId(bet) === 'match-result') {
       return `${bet.outcome.charAt(0).toUpperCase() + bet.outcome.slice(1)} to win`;
+    } else if (bet.type === 'full-match' || bet.type === 'lobby') {
+      return getSelectionLabel(getBetSelection(bet), bet);
     } else if (bet.type === 'action') {
       return `Action bet: ${bet.outcome}`;
+    } else if (bet.type === 'accumulator') {
+      return `${bet.legs?.length ?? 0}-fold accumulator`;
+    } else if (bet.type === 'system') {
+      return `System bet: ${bet.outcome}`;
     }
     return bet.outcome;
   };
@@ -168,6 +203,17 @@ export function MatchSummary({ gameState, resetForNewMatch }: MatchSummaryProps)
               </div>
             </div>
             <p className="text-gray-300 text-sm">{formatMatchResult()}</p>
+            {scorers.length > 0 && (
+              <div className="grid grid-cols-2 gap-4 mt-3 text-xs text-gray-300">
+                {[completedMatch.homeTeam, completedMatch.awayTeam].map(team => (
+                  <div key={team} className="space-y-0.5">
+                    {scorers.filter(scorer => scorer.team === team).map((scorer, index) => (
+                      <div key={`${scorer.id}-${index}`}>⚽ {scorer.name}</div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -250,6 +296,23 @@ export function MatchSummary({ gameState, resetForNewMatch }: MatchSummaryProps)
           </CardContent>
         </Card>
 
+        {/* Full-time team stats */}
+        <Card className="backdrop-blur-sm bg-gradient-to-r from-white/10 to-white/5 border-white/20">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-white text-base">Match Stats</CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <MatchStatsTable
+              stats={getMatchStats(gameState.matchEvents)}
+              homeTeam={completedMatch.homeTeam}
+              awayTeam={completedMatch.awayTeam}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Winning correct score and HT/FT cells */}
+        <ResultGrids match={completedMatch} bets={summaryBets} />
+
         {/* Bet Details */}
         <Card className="backdrop-blur-sm bg-gradient-to-r from-white/10 to-white/5 border-white/20">
           <CardHeader className="pb-3">
@@ -257,7 +320,7 @@ export function MatchSummary({ gameState, resetForNewMatch }: MatchSummaryProps)
           </CardHeader>
           <CardContent className="pt-0">
             <div className="space-y-3 max-h-64 overflow-y-auto">
-              {completedBets.map((bet) => (
+              {summaryBets.map((bet) => (
                 <div key={bet.id} className="border border-white/10 rounded-lg p-3 bg-white/5">
                   <div className="flex items-start gap-3">
                     <div className="flex-shrink-0 mt-0.5">
@@ -267,10 +330,10 @@ export function MatchSummary({ gameState, resetForNewMatch }: MatchSummaryProps)
                       <div className="flex items-center justify-between mb-1">
                         <div className="flex items-center gap-2">
                           <Badge variant={bet.type === 'full-match' ? 'default' : 'secondary'} className="text-xs">
-                            {bet.type === 'full-match' ? 'MATCH' : 'ACTION'}
+                            {bet.type === 'full-match' ? 'MATCH' : bet.type === 'accumulator' ? 'ACCA' : bet.type === 'system' ? 'SYSTEM' : bet.type === 'lobby' ? 'LOBBY' : 'ACTION'}
                           </Badge>
                           <span className="text-xs text-gray-400">
-                            ${bet.amount} @ {bet.odds}
+                            {bet.type === 'system' ? `$${bet.amount} total` : `$${bet.amount} @ ${bet.odds}`}
                           </span>
                           {bet.powerUpApplied && (
                             <Badge variant="outline" className="bg-yellow-500/20 border-yellow-400/30 text-yellow-300 text-xs">
@@ -279,13 +342,25 @@ export function MatchSummary({ gameState, resetForNewMatch }: MatchSummaryProps)
                           )}
                         </div>
                         <div className="flex items-center gap-1">
-                          {bet.won ? (
+                          {bet.cashedOut ? (
+                            <Badge variant="outline" className="bg-amber-500/20 border-amber-400/30 text-amber-300 text-xs">
+                              Cashed out ${getTotalReturn(bet).toFixed(2)}
+                            </Badge>
+                          ) : isStakeReturned(bet.result) ? (
+                            <Badge variant="outline" className="bg-gray-500/20 border-gray-400/30 text-gray-300 text-xs">
+                              {BET_RESULT_LABELS[bet.result!]} • ${getTotalReturn(bet).toFixed(2)} back
+                            </Badge>
+                          ) : bet.won ? (
                             <>
                               <TrendingUp size={12} className="text-green-400" />
                               <Badge variant="outline" className="bg-green-500/20 border-green-400/30 text-green-300 text-xs">
-                                +${bet.payout?.toFixed(2)}
+                                +${getTotalReturn(bet).toFixed(2)}
                               </Badge>
                             </>
+                          ) : !bet.resolved ? (
+                            <Badge variant="outline" className="bg-blue-500/20 border-blue-400/30 text-blue-300 text-xs">
+                              Open
+                            </Badge>
                           ) : (
                             <>
                               <TrendingDown size={12} className="text-red-400" />
@@ -299,6 +374,9 @@ export function MatchSummary({ gameState, resetForNewMatch }: MatchSummaryProps)
                       <p className="text-sm text-gray-300">
                         {getBetDescription(bet)}
                       </p>
+                      {bet.legs && <AccumulatorLegs legs={bet.legs} />}
+                      <CashOutHistory bet={bet} />
+                      {bet.type === 'system' && <SystemBetLines lines={getSystemLines(bet)} />}
                     </div>
                   </div>
                 </div>
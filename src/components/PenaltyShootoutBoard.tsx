@@ -0,0 +1,52 @@
+import React from 'react';
+import { SHOOTOUT_ROUNDS, Shootout, getNextKicker, getShootoutTally, getShootoutWinner } from './utils/penaltyShootout';
+
+interface PenaltyShootoutBoardProps {
+  shootout: Shootout;
+  homeTeam: string;
+  awayTeam: string;
+}
+
+/**
+ * Kick-by-kick shoot-out score: a dot per kick, filled when scored and
+ * crossed when missed, with the side stepping up next highlighted.
+ */
+export function PenaltyShootoutBoard({ shootout, homeTeam, awayTeam }: PenaltyShootoutBoardProps) {
+  const { scored, taken } = getShootoutTally(shootout.kicks);
+  const rounds = Math.max(SHOOTOUT_ROUNDS, taken.home, taken.away);
+  const nextKicker = getShootoutWinner(shootout) ? null : getNextKicker(shootout);
+
+  return (
+    <div className="bg-black/70 backdrop-blur-sm rounded-lg px-3 py-2 space-y-1">
+      {([['home', homeTeam, 'text-blue-300'], ['away', awayTeam, 'text-red-300']] as const).map(([team, name, color]) => {
+        const kicks = shootout.kicks.filter(kick => kick.team === team);
+
+        return (
+          <div key={team} className="flex items-center gap-2">
+            <span className={`text-xs font-medium truncate w-20 ${color} ${nextKicker === team ? 'underline' : ''}`}>
+              {name}
+            </span>
+            <div className="flex gap-1">
+              {Array.from({ length: rounds }, (_, round) => {
+                const kick = kicks[round];
+                return (
+                  <span
+                    key={round}
+                    className={`w-3 h-3 rounded-full border flex items-center justify-center text-[8px] leading-none ${
+                      !kick ? 'border-white/30' :
+                      kick.scored ? 'bg-green-400 border-green-300' :
+                      'bg-red-500/80 border-red-400 text-white'
+                    }`}
+                  >
+                    {kick && !kick.scored && '✕'}
+                  </span>
+                );
+              })}
+            </div>
+            <span className="text-white text-xs font-bold ml-auto">{scored[team]}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
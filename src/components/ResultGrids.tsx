@@ -0,0 +1,83 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Bet, MatchData } from '../App';
+import {
+  CORRECT_SCORE_MAX_GOALS,
+  HALF_TIME_FULL_TIME_OUTCOMES,
+  MarketId,
+  getCorrectScoreOutcome,
+  getHalfTimeFullTimeOutcome,
+  getMarketId
+} from './utils/matchMarkets';
+
+interface ResultGridsProps {
+  match: MatchData;
+  bets: Bet[];
+}
+
+const GOALS = Array.from({ length: CORRECT_SCORE_MAX_GOALS + 1 }, (_, goals) => goals);
+const RESULT_SHORT_LABELS: Record<string, string> = { home: '1', draw: 'X', away: '2' };
+
+/**
+ * Correct score and HT/FT grids with the winning cell lit up, and the cells the
+ * player backed outlined.
+ */
+export function ResultGrids({ match, bets }: ResultGridsProps) {
+  const correctScore = getCorrectScoreOutcome(match);
+  const halfTimeFullTime = getHalfTimeFullTimeOutcome(match);
+
+  const isBacked = (marketId: MarketId, outcome: string) =>
+    bets.some(bet => getMarketId(bet) === marketId && bet.outcome === outcome);
+
+  const renderCell = (marketId: MarketId, outcome: string, label: string, isWinner: boolean) => (
+    <div
+      key={outcome}
+      className={`rounded-md py-1.5 text-center text-xs border ${
+        isWinner
+          ? 'bg-green-500/30 border-green-400/60 text-green-200 font-bold'
+          : 'bg-white/5 border-white/10 text-gray-400'
+      } ${isBacked(marketId, outcome) ? 'ring-1 ring-yellow-400/70' : ''}`}
+    >
+      {label}
+    </div>
+  );
+
+  return (
+    <Card className="backdrop-blur-sm bg-gradient-to-r from-white/10 to-white/5 border-white/20">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-white text-base">Result Markets</CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        <div className="space-y-1.5">
+          <div className="text-xs text-gray-400">Correct Score</div>
+          <div className="grid grid-cols-5 gap-1">
+            {GOALS.flatMap(homeGoals => GOALS.map(awayGoals => {
+              const outcome = `${homeGoals}-${awayGoals}`;
+              return renderCell('correct-score', outcome, outcome, correctScore === outcome);
+            }))}
+          </div>
+          {renderCell('correct-score', 'other', 'Any other score', correctScore === 'other')}
+        </div>
+
+        {halfTimeFullTime && (
+          <div className="space-y-1.5">
+            <div className="text-xs text-gray-400">
+              Half-Time / Full-Time • HT {match.halfTimeScore!.homeScore}-{match.halfTimeScore!.awayScore}
+            </div>
+            <div className="grid grid-cols-3 gap-1">
+              {HALF_TIME_FULL_TIME_OUTCOMES.map(outcome => {
+                const [halfTime, fullTime] = outcome.split('/');
+                return renderCell(
+                  'half-time-full-time',
+                  outcome,
+                  `${RESULT_SHORT_LABELS[halfTime]}/${RESULT_SHORT_LABELS[fullTime]}`,
+                  halfTimeFullTime === outcome
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { TrendingUp, TrendingDown, RotateCcw, X } from 'lucide-react';
+import { SettlementNotification } from './utils/useBetSettlement';
+import { formatCurrency } from './utils/formatCurrency';
+
+interface SettlementNotificationsProps {
+  notifications: SettlementNotification[];
+  onDismiss: (id: string) => void;
+}
+
+export function SettlementNotifications({ notifications, onDismiss }: SettlementNotificationsProps) {
+  const getStyles = (result: SettlementNotification['result']) => {
+    switch (result) {
+      case 'won':
+      case 'half-won':
+        return 'bg-green-500/20 border-green-400/40 text-green-300';
+      case 'lost':
+        return 'bg-red-500/20 border-red-400/40 text-red-300';
+      default:
+        return 'bg-gray-500/20 border-gray-400/40 text-gray-300';
+    }
+  };
+
+  const getIcon = (result: SettlementNotification['result']) => {
+    switch (result) {
+      case 'won':
+      case 'half-won':
+        return <TrendingUp size={16} className="text-green-400" />;
+      case 'lost':
+        return <TrendingDown size={16} className="text-red-400" />;
+      default:
+        return <RotateCcw size={16} className="text-gray-300" />;
+    }
+  };
+
+  return (
+    <div className="fixed top-16 left-0 right-0 z-[60] pointer-events-none">
+      <div className="max-w-md mx-auto px-3 space-y-2">
+        <AnimatePresence>
+          {notifications.map((notification) => (
+            <motion.div
+              key={notification.id}
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className={`pointer-events-auto backdrop-blur-md rounded-xl border p-3 shadow-xl ${getStyles(notification.result)}`}
+            >
+              <div className="flex items-start gap-3">
+                <div className="mt-0.5">{getIcon(notification.result)}</div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-semibold">{notification.title}</span>
+                    {notification.payout > 0 && (
+                      <span className="text-sm font-bold">+${formatCurrency(notification.payout, true)}</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-300 truncate">{notification.description}</p>
+                </div>
+                <button
+                  onClick={() => onDismiss(notification.id)}
+                  className="text-gray-400 hover:text-white transition-colors"
+                  aria-label="Dismiss notification"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
-import React, { useEffect, useState, useCallback, useRef } from 'react';
+import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { X, MessageCircle } from 'lucide-react';
 import { GameState } from '../App';
 import { FloatingEmoji, FloatingEmojiData } from './FloatingEmoji';
 import { Card, CardContent } from './ui/card';
+import { getMatchStats } from './utils/matchStats';
+import { getPitchOffset, useBallAnimation } from './utils/useBallAnimation';
+import { PenaltyShootoutBoard } from './PenaltyShootoutBoard';
+import { getShootoutKeeper } from './utils/penaltyShootout';
 
 interface SoccerPitchWithSocialProps {
   gameState: GameState;
@@ -31,18 +35,14 @@ export const SoccerPitchWithSocial: React.FC<SoccerPitchWithSocialProps> = ({
   // Extract values from gameState
   const homeTeam = gameState.currentMatch?.homeTeam || '';
   const awayTeam = gameState.currentMatch?.awayTeam || '';
-  const homeScore = gameState.currentMatch?.homeScore || 0;
-  const awayScore = gameState.currentMatch?.awayScore || 0;
   const lastEvent = gameState.matchEvents[gameState.matchEvents.length - 1];
+  const stats = useMemo(() => getMatchStats(gameState.matchEvents), [gameState.matchEvents]);
+  const shootout = gameState.matchEngine?.shootout;
+  const keeperTeam = shootout && getShootoutKeeper(shootout);
 
-  // Pitch state
-  const [ballPosition, setBallPosition] = useState({ x: 80, y: 50 });
-  const [isAttacking, setIsAttacking] = useState<'home' | 'away' | 'midfield'>('midfield');
+  // Pitch state - the ball follows the engine
+  const { ball, trail: ballTrail, attackIntensity } = useBallAnimation(gameState.matchEngine);
   const [showGoalCelebration, setShowGoalCelebration] = useState(false);
-  const [possession, setPossession] = useState<'home' | 'away'>('home');
-  const [possessionPercentages, setPossessionPercentages] = useState({ home: 50, away: 50 });
-  const [attackIntensity, setAttackIntensity] = useState(0);
-  const [ballTrail, setBallTrail] = useState<Array<{x: number, y: number, id: number}>>([]);
 
   // Social features state
   const [floatingEmojis, setFloatingEmojis] = useState<FloatingEmojiData[]>([]);
@@ -214,65 +214,13 @@ export const SoccerPitchWithSocial: React.FC<SoccerPitchWithSocialProps> = ({
     };
   }, []);
 
-  // Ball movement logic (simplified version from original SoccerPitch)
+  // Celebrate goals - the engine has already put the ball in the net
   useEffect(() => {
-    const interval = setInterval(() => {
-      setBallPosition(prevPos => {
-        let newX = prevPos.x;
-        let newY = prevPos.y;
-        
-        const timePhase = Math.floor(matchTimer / 15) % 6;
-        const scoreDifference = Math.abs(homeScore - awayScore);
-        
-        switch (timePhase) {
-          case 0:
-            newX = 55 + Math.random() * 50;
-            newY = 30 + Math.random() * 40;
-            setIsAttacking('midfield');
-            break;
-          case 1:
-            newX = Math.min(prevPos.x + (Math.random() * 20 - 8), 140);
-            newY = prevPos.y + (Math.random() * 20 - 10);
-            setIsAttacking('home');
-            break;
-          default:
-            newX += (Math.random() - 0.5) * 8;
-            newY += (Math.random() - 0.5) * 6;
-        }
-        
-        newX = Math.max(12, Math.min(148, newX));
-        newY = Math.max(15, Math.min(85, newY));
-        
-        setBallTrail(prev => {
-          const newTrail = [...prev, { x: newX, y: newY, id: Date.now() }].slice(-5);
-          return newTrail;
-        });
-        
-        return { x: newX, y: newY };
-      });
-    }, 800 + Math.random() * 400);
-
-    return () => clearInterval(interval);
-  }, [matchTimer, homeScore, awayScore]);
+    if (lastEvent?.type !== 'goal') return;
 
-  // React to match events
-  useEffect(() => {
-    if (!lastEvent) return;
-
-    if (lastEvent.type === 'goal') {
-      const isHomeGoal = lastEvent.scoringTeam === 'home';
-      setBallPosition({ 
-        x: isHomeGoal ? 145 : 15, 
-        y: 48 + Math.random() * 8 
-      });
-      setShowGoalCelebration(true);
-      setTimeout(() => setShowGoalCelebration(false), 4000);
-      
-      setTimeout(() => {
-        setBallPosition({ x: 80, y: 50 });
-        setIsAttacking('midfield');
-      }, 3000);
-    }
+    setShowGoalCelebration(true);
+    const timeout = setTimeout(() => setShowGoalCelebration(false), 4000);
+    return () => clearTimeout(timeout);
   }, [lastEvent]);
 
   return (
@@ -349,25 +297,39 @@ export const SoccerPitchWithSocial: React.FC<SoccerPitchWithSocialProps> = ({
                 <rect x="155" y="45" width="2" height="10" fill="white" opacity="0.9"/>
               </svg>
 
-              {/* Possession indicator */}
+              {shootout ? (
+                <div className="absolute bottom-2 left-1/2 transform -translate-x-1/2">
+                  <PenaltyShootoutBoard shootout={shootout} homeTeam={homeTeam} awayTeam={awayTeam} />
+                </div>
+              ) : (
+              /* Possession indicator */
               <div className="absolute bottom-2 left-1/2 transform -translate-x-1/2 flex items-center space-x-2 bg-black/70 backdrop-blur-sm px-3 py-1.5 rounded-full">
                 <div className="flex items-center space-x-1 text-blue-400">
                   <div className="w-2 h-2 rounded-full bg-blue-400" />
-                  <span className="text-xs font-medium">{Math.round(possessionPercentages.home)}%</span>
+                  <span className="text-xs font-medium">{stats.home.possession}%</span>
                 </div>
                 <span className="text-white/60 text-xs">|</span>
                 <div className="flex items-center space-x-1 text-red-400">
-                  <span className="text-xs font-medium">{Math.round(possessionPercentages.away)}%</span>
+                  <span className="text-xs font-medium">{stats.away.possession}%</span>
                   <div className="w-2 h-2 rounded-full bg-red-400" />
                 </div>
               </div>
+              )}
+
+              {/* The keeper facing the latest shoot-out kick, all taken at the same end */}
+              {keeperTeam && (
+                <div
+                  className={`absolute w-2.5 h-2.5 rounded-full border border-white ${keeperTeam === 'home' ? 'bg-blue-400' : 'bg-red-400'}`}
+                  style={{ ...getPitchOffset({ x: 99, y: 50 }), transform: 'translate(-50%, -50%)' }}
+                />
+              )}
 
               {/* Ball trail */}
               {ballTrail.map((pos) => (
                 <motion.div
                   key={pos.id}
                   className="absolute w-2 h-2 bg-white/30 rounded-full"
-                  style={{ left: `${pos.x}%`, top: `${pos.y}%`, transform: 'translate(-50%, -50%)' }}
+                  style={{ ...getPitchOffset(pos), transform: 'translate(-50%, -50%)' }}
                   initial={{ opacity: 0.6, scale: 0.8 }}
                   animate={{ opacity: 0, scale: 0.3 }}
                   transition={{ duration: 1 }}
@@ -377,7 +339,7 @@ export const SoccerPitchWithSocial: React.FC<SoccerPitchWithSocialProps> = ({
               {/* Animated ball */}
               <motion.div
                 className="absolute w-3 h-3 bg-white rounded-full shadow-lg border border-gray-300"
-                style={{ left: `${ballPosition.x}%`, top: `${ballPosition.y}%`, transform: 'translate(-50%, -50%)' }}
+                style={{ ...getPitchOffset(ball), transform: 'translate(-50%, -50%)', transition: 'left 0.3s ease-out, top 0.3s ease-out' }}
                 animate={{ scale: [1, 1.1 + attackIntensity * 0.2, 1], rotate: matchTimer * 30 + attackIntensity * 180 }}
                 transition={{
                   scale: { duration: 0.5, repeat: Infinity },
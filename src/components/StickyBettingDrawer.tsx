@@ -7,6 +7,40 @@ import { ChevronUp, ChevronDown, TrendingUp, TrendingDown } from 'lucide-react';
 import { GameState, BetslipSelection } from '../App';
 import { RainbowText } from './RainbowText';
 import { formatCurrency } from './utils/formatCurrency';
+import {
+  CORRECT_SCORE_MAX_GOALS,
+  DOUBLE_CHANCE_OUTCOMES,
+  HALF_TIME_FULL_TIME_OUTCOMES,
+  MarketId,
+  MarketOutcome,
+  MarketSelection,
+  getSelectionLabel,
+  getSelectionPrice,
+  getSettlementRule,
+  isSameSelection
+} from './utils/matchMarkets';
+import { formatHandicap, getMainAsianLines } from './utils/asianLines';
+import { getSquad } from './utils/squads';
+
+const MARKET_TABS: { id: MarketId; label: string }[] = [
+  { id: 'match-result', label: 'Match Result' },
+  { id: 'over-under', label: 'Total Goals' },
+  { id: 'correct-score', label: 'Correct Score' },
+  { id: 'half-time-full-time', label: 'HT/FT' },
+  { id: 'asian-handicap', label: 'Asian Lines' },
+  { id: 'first-goalscorer', label: 'Goalscorer' }
+];
+
+type GoalscorerMarketId = 'first-goalscorer' | 'next-goalscorer' | 'anytime-goalscorer';
+
+const GOALSCORER_MARKETS: { id: GoalscorerMarketId; label: string }[] = [
+  { id: 'first-goalscorer', label: 'First' },
+  { id: 'next-goalscorer', label: 'Next' },
+  { id: 'anytime-goalscorer', label: 'Anytime' }
+];
+
+const CORRECT_SCORE_GOALS = Array.from({ length: CORRECT_SCORE_MAX_GOALS + 1 }, (_, goals) => goals);
+const RESULT_SHORT_LABELS: Record<string, string> = { home: '1', draw: 'X', away: '2' };
 
 interface StickyBettingDrawerProps {
   gameState: GameState;
@@ -17,7 +51,11 @@ interface StickyBettingDrawerProps {
 
 export function StickyBettingDrawer({ gameState, onAddToBetslip, updateGameState, triggerBetFeedback }: StickyBettingDrawerProps) {
   const [isExpanded, setIsExpanded] = useState(false);
-  const [selectedOutcome, setSelectedOutcome] = useState<'home' | 'draw' | 'away' | null>(null);
+  const [selection, setSelection] = useState<MarketSelection | null>(null);
+  const [activeMarket, setActiveMarket] = useState<MarketId>('match-result');
+  // Asian line picked per market; until one is picked the board follows the main line
+  const [pickedLines, setPickedLines] = useState<Partial<Record<MarketId, number>>>({});
+  const [goalscorerMarket, setGoalscorerMarket] = useState<GoalscorerMarketId>('first-goalscorer');
   const [customStake, setCustomStake] = useState('');
   const [isAnimating, setIsAnimating] = useState(false);
   const [previousOdds, setPreviousOdds] = useState<{home: number, draw: number, away: number} | null>(null);
@@ -25,7 +63,7 @@ export function StickyBettingDrawer({ gameState, onAddToBetslip, updateGameState
     home: null, draw: null, away: null
   });
 
-  const { currentMatch, wallet, betslipStake } = gameState;
+  const { currentMatch, matchEngine, wallet, betslipStake } = gameState;
 
   // Track odds changes for visual indicators
   useEffect(() => {
@@ -55,24 +93,24 @@ export function StickyBettingDrawer({ gameState, onAddToBetslip, updateGameState
       });
     }
   }, [currentMatch?.homeOdds, currentMatch?.drawOdds, currentMatch?.awayOdds]);
-  if (!currentMatch) return null;
+  if (!currentMatch || !matchEngine) return null;
 
+  const { markets } = matchEngine;
   const currentStake = customStake && !isNaN(parseFloat(customStake)) ? parseFloat(customStake) : betslipStake;
   
-  const getSelectedOdds = () => {
-    if (!selectedOutcome) return 0;
-    switch (selectedOutcome) {
-      case 'home': return currentMatch.homeOdds;
-      case 'draw': return currentMatch.drawOdds;
-      case 'away': return currentMatch.awayOdds;
-      default: return 0;
-    }
-  };
+  // Null once the selection's market has been taken off the board (e.g. a total already passed)
+  const selectedOdds = selection ? getSelectionPrice(selection, currentMatch, markets) : null;
+  const getSelectedOdds = () => selectedOdds ?? 0;
+
+  const potentialWin = selection ? currentStake * getSelectedOdds() : 0;
 
-  const potentialWin = selectedOutcome ? currentStake * getSelectedOdds() : 0;
+  // The 90-minute markets close once a knockout tie goes to extra time
+  const regularTimeOver = !!currentMatch.regularTimeScore;
 
-  const handleOutcomeSelect = (outcome: 'home' | 'draw' | 'away') => {
-    setSelectedOutcome(outcome);
+  const isSelected = (candidate: MarketSelection) => !!selection && isSameSelection(selection, candidate);
+
+  const handleOutcomeSelect = (candidate: MarketSelection) => {
+    setSelection(candidate);
     setIsAnimating(true);
     
     // Smooth expand animation
@@ -96,18 +134,19 @@ export function StickyBettingDrawer({ gameState, onAddToBetslip, updateGameState
   };
 
   const handlePlaceBet = () => {
-    if (!selectedOutcome || currentStake > wallet || !currentMatch) return;
+    if (!selection || !selectedOdds || currentStake > wallet || !currentMatch) return;
     
     // Create the bet selection and place it through the onAddToBetslip callback
-    const selection: BetslipSelection = {
-      id: `${currentMatch.id}-${selectedOutcome}-${Date.now()}`,
+    const betslipSelection: BetslipSelection = {
+      id: `${currentMatch.id}-${selection.marketId}-${selection.outcome}-${selection.line ?? ''}-${Date.now()}`,
       matchId: currentMatch.id,
       homeTeam: currentMatch.homeTeam,
       awayTeam: currentMatch.awayTeam,
-      outcome: selectedOutcome,
-      odds: getSelectedOdds(),
-      outcomeLabel: selectedOutcome === 'home' ? currentMatch.homeTeam : 
-                   selectedOutcome === 'draw' ? 'Draw' : currentMatch.awayTeam,
+      marketId: selection.marketId,
+      outcome: selection.outcome,
+      line: selection.line,
+      odds: selectedOdds,
+      outcomeLabel: getSelectionLabel(selection, currentMatch),
       amount: currentStake // Include the stake amount directly
     };
     
@@ -140,20 +179,127 @@ export function StickyBettingDrawer({ gameState, onAddToBetslip, updateGameState
     }
 
     // Place the bet through the callback
-    onAddToBetslip(selection);
+    onAddToBetslip(betslipSelection);
     
     // Smooth collapse animation
     setIsAnimating(true);
     setIsExpanded(false);
     
     setTimeout(() => {
-      setSelectedOutcome(null);
+      setSelection(null);
       setCustomStake('');
       setIsAnimating(false);
     }, 300);
   };
 
+  // Compact price button for the grid markets; outcomes the score has ruled out show as closed
+  const renderPriceButton = (candidate: MarketSelection, title: string) => {
+    const odds = getSelectionPrice(candidate, currentMatch, markets);
+    return (
+      <Button
+        key={candidate.outcome}
+        className={`h-11 w-full flex flex-col gap-0 px-1 transition-all duration-300 ${
+          isSelected(candidate)
+            ? 'bg-gradient-to-b from-sidebar-primary to-sidebar-primary/80 text-sidebar-primary-foreground border-sidebar-primary shadow-lg shadow-sidebar-primary/30'
+            : '!bg-purple-900/70 !border-purple-600/60 !text-white hover:!bg-purple-800/80 hover:!border-purple-500/70'
+        }`}
+        onClick={() => handleOutcomeSelect(candidate)}
+        disabled={isAnimating || odds === null}
+      >
+        <span className="text-[10px] font-medium opacity-80">{title}</span>
+        <span className="text-xs font-bold">{odds ?? '-'}</span>
+      </Button>
+    );
+  };
+
+  // Line chips for an Asian market with the two sides of the picked line below them
+  const renderAsianLinePicker = (
+    marketId: MarketId,
+    title: string,
+    { lines, mainLine }: { lines: { line: number }[]; mainLine: number | null },
+    formatLine: (line: number) => string,
+    outcomes: { outcome: MarketOutcome; title: (line: number) => string }[]
+  ) => {
+    if (mainLine === null) return null;
+    const picked = pickedLines[marketId];
+    const activeLine = picked !== undefined && lines.some(({ line }) => line === picked) ? picked : mainLine;
+
+    return (
+      <div className="space-y-1.5">
+        <span className="text-muted-foreground text-xs font-medium">{title}</span>
+        <div className="grid grid-cols-5 gap-1">
+          {lines.map(({ line }) => (
+            <button
+              key={line}
+              onClick={() => setPickedLines(prev => ({ ...prev, [marketId]: line }))}
+              className={`py-1 rounded-md text-xs font-medium border transition-colors ${
+                line === activeLine
+                  ? 'bg-sidebar-primary/30 border-sidebar-primary/60 text-foreground'
+                  : 'bg-transparent border-sidebar-primary/20 text-muted-foreground hover:text-foreground hover:border-sidebar-primary/40'
+              }`}
+            >
+              {formatLine(line)}{line === mainLine ? ' •' : ''}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-1.5">
+          {outcomes.map(({ outcome, title: outcomeTitle }) =>
+            renderPriceButton({ marketId, outcome, line: activeLine }, outcomeTitle(activeLine))
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // Both squads side by side; next goalscorer bets are on the next goal of the match
+  const renderGoalscorers = () => {
+    const line = goalscorerMarket === 'next-goalscorer' ? markets.nextGoalscorer.goal : undefined;
+    const isClosed = goalscorerMarket === 'first-goalscorer' && markets.firstGoalscorer.length === 0;
+
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          {GOALSCORER_MARKETS.map(market => (
+            <button
+              key={market.id}
+              onClick={() => setGoalscorerMarket(market.id)}
+              className={`px-2.5 py-0.5 rounded-md text-xs font-medium border transition-colors ${
+                goalscorerMarket === market.id
+                  ? 'bg-sidebar-primary/30 border-sidebar-primary/60 text-foreground'
+                  : 'bg-transparent border-sidebar-primary/20 text-muted-foreground hover:text-foreground hover:border-sidebar-primary/40'
+              }`}
+            >
+              {market.label}
+            </button>
+          ))}
+          {line && <span className="text-muted-foreground text-xs ml-auto">Goal {line}</span>}
+        </div>
+        {isClosed ? (
+          <div className="text-center text-muted-foreground text-sm py-2">
+            The first goal has been scored
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-2 max-h-56 overflow-y-auto">
+              {[currentMatch.homeTeam, currentMatch.awayTeam].map(team => (
+                <div key={team} className="space-y-1">
+                  <span className="text-muted-foreground text-xs font-medium truncate block">{team}</span>
+                  {getSquad(team).map(player =>
+                    renderPriceButton({ marketId: goalscorerMarket, outcome: player.id, line }, player.name)
+                  )}
+                </div>
+              ))}
+            </div>
+            {goalscorerMarket !== 'anytime-goalscorer' &&
+              renderPriceButton({ marketId: goalscorerMarket, outcome: 'none', line }, 'No goalscorer')}
+          </>
+        )}
+      </div>
+    );
+  };
+
   const canAffordBet = currentStake <= wallet && currentStake > 0;
+  const isMarketOpen = selectedOdds !== null;
 
   return (
     <div className="fixed bottom-0 left-0 right-0 z-50">
@@ -175,13 +321,13 @@ export function StickyBettingDrawer({ gameState, onAddToBetslip, updateGameState
               <h3 className="text-foreground font-medium flex items-center gap-2">
                 <div className="w-2 h-2 bg-sidebar-primary rounded-full animate-pulse"></div>
                 <RainbowText 
-                  animated={!selectedOutcome}
+                  animated={!selection}
                   className="font-bold"
                 >
                   Full Match Betting
                 </RainbowText>
               </h3>
-              {selectedOutcome && (
+              {selection && (
                 <Button
                   variant="ghost"
                   size="sm"
@@ -198,76 +344,214 @@ export function StickyBettingDrawer({ gameState, onAddToBetslip, updateGameState
               )}
             </div>
 
+            {/* Market tabs */}
+            <div className="flex gap-2 overflow-x-auto -mx-1 px-1">
+              {MARKET_TABS.map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveMarket(tab.id)}
+                  className={`shrink-0 px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                    activeMarket === tab.id
+                      ? 'bg-sidebar-primary/30 border-sidebar-primary/60 text-foreground'
+                      : 'bg-transparent border-sidebar-primary/20 text-muted-foreground hover:text-foreground hover:border-sidebar-primary/40'
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+
+            <p className="text-muted-foreground text-[11px]">{getSettlementRule(activeMarket, matchEngine.knockout)}</p>
+
             {/* Betting options */}
-            <div className="grid grid-cols-3 gap-3">
-              <Button
-                variant={selectedOutcome === 'home' ? 'default' : undefined}
-                className={`h-16 flex flex-col gap-1 transition-all duration-300 transform hover:scale-105 ${
-                  selectedOutcome === 'home' 
-                    ? 'bg-gradient-to-b from-sidebar-primary to-sidebar-primary/80 text-sidebar-primary-foreground border-sidebar-primary shadow-lg shadow-sidebar-primary/30 scale-105' 
-                    : '!bg-purple-900/70 !border-purple-600/60 !text-white hover:!bg-purple-800/80 hover:!border-purple-500/70 hover:shadow-lg hover:shadow-purple-600/30 shadow-md shadow-purple-700/15'
-                }`}
-                onClick={() => handleOutcomeSelect('home')}
-                disabled={isAnimating}
-              >
-                <span className="text-xs truncate font-medium">{currentMatch.homeTeam}</span>
-                <div className="flex items-center gap-1">
-                  <span className="font-bold text-lg">{currentMatch.homeOdds}</span>
-                  {oddsChanges.home && (
-                    <div className={`transition-all duration-300 animate-pulse ${oddsChanges.home === 'up' ? 'text-green-400' : 'text-red-400'}`}>
-                      {oddsChanges.home === 'up' ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+            {activeMarket === 'match-result' && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-3 gap-3">
+                  <Button
+                    variant={isSelected({ marketId: 'match-result', outcome: 'home' }) ? 'default' : undefined}
+                    className={`h-16 flex flex-col gap-1 transition-all duration-300 transform hover:scale-105 ${
+                      isSelected({ marketId: 'match-result', outcome: 'home' }) 
+                        ? 'bg-gradient-to-b from-sidebar-primary to-sidebar-primary/80 text-sidebar-primary-foreground border-sidebar-primary shadow-lg shadow-sidebar-primary/30 scale-105' 
+                        : '!bg-purple-900/70 !border-purple-600/60 !text-white hover:!bg-purple-800/80 hover:!border-purple-500/70 hover:shadow-lg hover:shadow-purple-600/30 shadow-md shadow-purple-700/15'
+                    }`}
+                    onClick={() => handleOutcomeSelect({ marketId: 'match-result', outcome: 'home' })}
+                    disabled={isAnimating || regularTimeOver}
+                  >
+                    <span className="text-xs truncate font-medium">{currentMatch.homeTeam}</span>
+                    <div className="flex items-center gap-1">
+                      <span className="font-bold text-lg">{currentMatch.homeOdds}</span>
+                      {oddsChanges.home && (
+                        <div className={`transition-all duration-300 animate-pulse ${oddsChanges.home === 'up' ? 'text-green-400' : 'text-red-400'}`}>
+                          {oddsChanges.home === 'up' ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+                        </div>
+                      )}
                     </div>
-                  )}
+                  </Button>
+                
+                  <Button
+                    variant={isSelected({ marketId: 'match-result', outcome: 'draw' }) ? 'default' : undefined}
+                    className={`h-16 flex flex-col gap-1 transition-all duration-300 transform hover:scale-105 ${
+                      isSelected({ marketId: 'match-result', outcome: 'draw' }) 
+                        ? 'bg-gradient-to-b from-sidebar-primary to-sidebar-primary/80 text-sidebar-primary-foreground border-sidebar-primary shadow-lg shadow-sidebar-primary/30 scale-105' 
+                        : '!bg-purple-900/70 !border-purple-600/60 !text-white hover:!bg-purple-800/80 hover:!border-purple-500/70 hover:shadow-lg hover:shadow-purple-600/30 shadow-md shadow-purple-700/15'
+                    }`}
+                    onClick={() => handleOutcomeSelect({ marketId: 'match-result', outcome: 'draw' })}
+                    disabled={isAnimating || regularTimeOver}
+                  >
+                    <span className="text-xs font-medium">Draw</span>
+                    <div className="flex items-center gap-1">
+                      <span className="font-bold text-lg">{currentMatch.drawOdds}</span>
+                      {oddsChanges.draw && (
+                        <div className={`transition-all duration-300 animate-pulse ${oddsChanges.draw === 'up' ? 'text-green-400' : 'text-red-400'}`}>
+                          {oddsChanges.draw === 'up' ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+                        </div>
+                      )}
+                    </div>
+                  </Button>
+                
+                  <Button
+                    variant={isSelected({ marketId: 'match-result', outcome: 'away' }) ? 'default' : undefined}
+                    className={`h-16 flex flex-col gap-1 transition-all duration-300 transform hover:scale-105 ${
+                      isSelected({ marketId: 'match-result', outcome: 'away' }) 
+                        ? 'bg-gradient-to-b from-sidebar-primary to-sidebar-primary/80 text-sidebar-primary-foreground border-sidebar-primary shadow-lg shadow-sidebar-primary/30 scale-105' 
+                        : '!bg-purple-900/70 !border-purple-600/60 !text-white hover:!bg-purple-800/80 hover:!border-purple-500/70 hover:shadow-lg hover:shadow-purple-600/30 shadow-md shadow-purple-700/15'
+                    }`}
+                    onClick={() => handleOutcomeSelect({ marketId: 'match-result', outcome: 'away' })}
+                    disabled={isAnimating || regularTimeOver}
+                  >
+                    <span className="text-xs truncate font-medium">{currentMatch.awayTeam}</span>
+                    <div className="flex items-center gap-1">
+                      <span className="font-bold text-lg">{currentMatch.awayOdds}</span>
+                      {oddsChanges.away && (
+                        <div className={`transition-all duration-300 animate-pulse ${oddsChanges.away === 'up' ? 'text-green-400' : 'text-red-400'}`}>
+                          {oddsChanges.away === 'up' ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+                        </div>
+                      )}
+                    </div>
+                  </Button>
                 </div>
-              </Button>
-              
-              <Button
-                variant={selectedOutcome === 'draw' ? 'default' : undefined}
-                className={`h-16 flex flex-col gap-1 transition-all duration-300 transform hover:scale-105 ${
-                  selectedOutcome === 'draw' 
-                    ? 'bg-gradient-to-b from-sidebar-primary to-sidebar-primary/80 text-sidebar-primary-foreground border-sidebar-primary shadow-lg shadow-sidebar-primary/30 scale-105' 
-                    : '!bg-purple-900/70 !border-purple-600/60 !text-white hover:!bg-purple-800/80 hover:!border-purple-500/70 hover:shadow-lg hover:shadow-purple-600/30 shadow-md shadow-purple-700/15'
-                }`}
-                onClick={() => handleOutcomeSelect('draw')}
-                disabled={isAnimating}
-              >
-                <span className="text-xs font-medium">Draw</span>
-                <div className="flex items-center gap-1">
-                  <span className="font-bold text-lg">{currentMatch.drawOdds}</span>
-                  {oddsChanges.draw && (
-                    <div className={`transition-all duration-300 animate-pulse ${oddsChanges.draw === 'up' ? 'text-green-400' : 'text-red-400'}`}>
-                      {oddsChanges.draw === 'up' ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+
+                {/* Markets built on the 1X2 */}
+                <div className="space-y-1">
+                  <span className="text-muted-foreground text-xs font-medium">Double Chance</span>
+                  <div className="grid grid-cols-3 gap-1.5">
+                    {DOUBLE_CHANCE_OUTCOMES.map(outcome => renderPriceButton({ marketId: 'double-chance', outcome }, outcome))}
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <span className="text-muted-foreground text-xs font-medium">Draw No Bet</span>
+                    <div className="grid grid-cols-2 gap-1.5">
+                      {renderPriceButton({ marketId: 'draw-no-bet', outcome: 'home' }, '1')}
+                      {renderPriceButton({ marketId: 'draw-no-bet', outcome: 'away' }, '2')}
                     </div>
-                  )}
+                  </div>
+                  <div className="space-y-1">
+                    <span className="text-muted-foreground text-xs font-medium">Both Teams to Score</span>
+                    <div className="grid grid-cols-2 gap-1.5">
+                      {renderPriceButton({ marketId: 'both-teams-to-score', outcome: 'yes' }, 'Yes')}
+                      {renderPriceButton({ marketId: 'both-teams-to-score', outcome: 'no' }, 'No')}
+                    </div>
+                  </div>
                 </div>
-              </Button>
-              
-              <Button
-                variant={selectedOutcome === 'away' ? 'default' : undefined}
-                className={`h-16 flex flex-col gap-1 transition-all duration-300 transform hover:scale-105 ${
-                  selectedOutcome === 'away' 
-                    ? 'bg-gradient-to-b from-sidebar-primary to-sidebar-primary/80 text-sidebar-primary-foreground border-sidebar-primary shadow-lg shadow-sidebar-primary/30 scale-105' 
-                    : '!bg-purple-900/70 !border-purple-600/60 !text-white hover:!bg-purple-800/80 hover:!border-purple-500/70 hover:shadow-lg hover:shadow-purple-600/30 shadow-md shadow-purple-700/15'
-                }`}
-                onClick={() => handleOutcomeSelect('away')}
-                disabled={isAnimating}
-              >
-                <span className="text-xs truncate font-medium">{currentMatch.awayTeam}</span>
-                <div className="flex items-center gap-1">
-                  <span className="font-bold text-lg">{currentMatch.awayOdds}</span>
-                  {oddsChanges.away && (
-                    <div className={`transition-all duration-300 animate-pulse ${oddsChanges.away === 'up' ? 'text-green-400' : 'text-red-400'}`}>
-                      {oddsChanges.away === 'up' ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+                {/* Knockout ties only: the one market that runs through extra time and penalties */}
+                {matchEngine.knockout && (
+                  <div className="space-y-1">
+                    <span className="text-muted-foreground text-xs font-medium">To Qualify</span>
+                    <p className="text-muted-foreground text-[11px]">{getSettlementRule('to-qualify', true)}</p>
+                    <div className="grid grid-cols-2 gap-1.5">
+                      {renderPriceButton({ marketId: 'to-qualify', outcome: 'home' }, currentMatch.homeTeam)}
+                      {renderPriceButton({ marketId: 'to-qualify', outcome: 'away' }, currentMatch.awayTeam)}
                     </div>
-                  )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {activeMarket === 'over-under' && (
+              <div className="space-y-2">
+                {markets.overUnder.map(({ line, over, under }) => (
+                  <div key={line} className="grid grid-cols-[3rem_1fr_1fr] items-center gap-2">
+                    <span className="text-muted-foreground text-sm font-medium">{line}</span>
+                    {([['over', over], ['under', under]] as const).map(([outcome, odds]) => (
+                      <Button
+                        key={outcome}
+                        className={`h-10 flex items-center justify-between px-3 transition-all duration-300 ${
+                          isSelected({ marketId: 'over-under', outcome, line })
+                            ? 'bg-gradient-to-b from-sidebar-primary to-sidebar-primary/80 text-sidebar-primary-foreground border-sidebar-primary shadow-lg shadow-sidebar-primary/30'
+                            : '!bg-purple-900/70 !border-purple-600/60 !text-white hover:!bg-purple-800/80 hover:!border-purple-500/70'
+                        }`}
+                        onClick={() => handleOutcomeSelect({ marketId: 'over-under', outcome, line })}
+                        disabled={isAnimating}
+                      >
+                        <span className="text-xs font-medium">{outcome === 'over' ? 'Over' : 'Under'}</span>
+                        <span className="font-bold">{odds}</span>
+                      </Button>
+                    ))}
+                  </div>
+                ))}
+                {markets.overUnder.length === 0 && (
+                  <div className="text-center text-muted-foreground text-sm py-2">
+                    No total goals lines left in this match
+                  </div>
+                )}
+              </div>
+            )}
+
+            {activeMarket === 'correct-score' && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-5 gap-1.5">
+                  {CORRECT_SCORE_GOALS.flatMap(homeGoals => CORRECT_SCORE_GOALS.map(awayGoals =>
+                    renderPriceButton({ marketId: 'correct-score', outcome: `${homeGoals}-${awayGoals}` }, `${homeGoals}-${awayGoals}`)
+                  ))}
                 </div>
-              </Button>
-            </div>
+                {renderPriceButton({ marketId: 'correct-score', outcome: 'other' }, 'Any other score')}
+              </div>
+            )}
+
+            {activeMarket === 'half-time-full-time' && (
+              <div className="grid grid-cols-3 gap-1.5">
+                {HALF_TIME_FULL_TIME_OUTCOMES.map(outcome => {
+                  const [halfTime, fullTime] = outcome.split('/');
+                  return renderPriceButton(
+                    { marketId: 'half-time-full-time', outcome },
+                    `${RESULT_SHORT_LABELS[halfTime]}/${RESULT_SHORT_LABELS[fullTime]}`
+                  );
+                })}
+              </div>
+            )}
+
+            {activeMarket === 'asian-handicap' && (
+              <div className="space-y-3">
+                {renderAsianLinePicker(
+                  'asian-handicap',
+                  'Asian Handicap (home line)',
+                  getMainAsianLines(markets.asianHandicap, price => [price.home, price.away]),
+                  formatHandicap,
+                  [
+                    { outcome: 'home', title: line => `1 ${formatHandicap(line)}` },
+                    { outcome: 'away', title: line => `2 ${formatHandicap(-line)}` }
+                  ]
+                )}
+                {renderAsianLinePicker(
+                  'asian-goal-line',
+                  'Asian Goal Line',
+                  getMainAsianLines(markets.asianGoalLines, price => [price.over, price.under]),
+                  line => `${line}`,
+                  [
+                    { outcome: 'over', title: line => `Over ${line}` },
+                    { outcome: 'under', title: line => `Under ${line}` }
+                  ]
+                )}
+              </div>
+            )}
+
+            {activeMarket === 'first-goalscorer' && renderGoalscorers()}
           </div>
 
           {/* Expanded state - betslip details */}
           <div className={`overflow-hidden transition-all duration-300 ease-out ${
-            isExpanded && selectedOutcome ? 'max-h-[800px] opacity-100' : 'max-h-0 opacity-0'
+            isExpanded && selection ? 'max-h-[800px] opacity-100' : 'max-h-0 opacity-0'
           }`}>
             <div className="mt-4 pt-4 border-t border-sidebar-primary/30 space-y-4">
               {/* Selection details */}
@@ -275,12 +559,11 @@ export function StickyBettingDrawer({ gameState, onAddToBetslip, updateGameState
                 <div className="flex items-center justify-between mb-2">
                   <span className="text-muted-foreground text-sm">Selection</span>
                   <Badge variant="outline" className="bg-sidebar-primary/30 border-sidebar-primary/50 text-sidebar-primary font-bold px-3 py-1">
-                    @{getSelectedOdds()}
+                    {isMarketOpen ? `@${getSelectedOdds()}` : 'Closed'}
                   </Badge>
                 </div>
                 <div className="text-foreground font-medium">
-                  {selectedOutcome === 'home' ? currentMatch.homeTeam : 
-                   selectedOutcome === 'draw' ? 'Draw' : currentMatch.awayTeam}
+                  {selection && getSelectionLabel(selection, currentMatch)}
                 </div>
                 <div className="text-muted-foreground text-sm">
                   {currentMatch.homeTeam} v {currentMatch.awayTeam}
@@ -344,14 +627,18 @@ export function StickyBettingDrawer({ gameState, onAddToBetslip, updateGameState
               <Button
                 data-testid="add-to-betslip-button"
                 onClick={handlePlaceBet}
-                disabled={!canAffordBet}
+                disabled={!canAffordBet || !isMarketOpen}
                 className={`w-full h-16 font-bold transition-all duration-200 ${
-                  canAffordBet
+                  canAffordBet && isMarketOpen
                     ? 'bg-gradient-to-r from-sidebar-primary to-sidebar-primary/90 hover:from-sidebar-primary/90 hover:to-sidebar-primary/80 text-sidebar-primary-foreground shadow-lg shadow-sidebar-primary/30 hover:shadow-xl hover:shadow-sidebar-primary/40 animate-shimmer-button'
                     : 'bg-muted text-muted-foreground cursor-not-allowed border border-muted-foreground/20'
                 }`}
               >
-                {!canAffordBet ? (
+                {!isMarketOpen ? (
+                  <span className="text-lg">
+                    Market Closed
+                  </span>
+                ) : !canAffordBet ? (
                   <span className="text-lg">
                     Insufficient Funds
                   </span>
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Check, X, Minus, Clock } from 'lucide-react';
+import { Bet } from '../App';
+import { getSelectionLabel } from './utils/matchMarkets';
+import { isStakeReturned } from './utils/betSettlement';
+
+interface SystemBetLinesProps {
+  lines: Bet[];
+}
+
+export function SystemBetLines({ lines }: SystemBetLinesProps) {
+  const getResultIcon = (line: Bet) => {
+    if (!line.resolved) return <Clock size={10} className="text-blue-300" />;
+    if (isStakeReturned(line.result)) return <Minus size={10} className="text-gray-400" />;
+    return line.won
+      ? <Check size={10} className="text-green-400" />
+      : <X size={10} className="text-red-400" />;
+  };
+
+  return (
+    <div className="mt-1 space-y-0.5">
+      {lines.map(line => (
+        <div key={line.id} className="flex items-center gap-1.5 text-xs">
+          {getResultIcon(line)}
+          <span className="text-gray-400 shrink-0">{line.outcome}</span>
+          <span className="text-gray-300 truncate">
+            {line.legs?.map(leg => getSelectionLabel(leg, leg)).join(' + ')}
+          </span>
+          <span className="text-gray-400 ml-auto shrink-0">
+            {line.resolved && line.won ? `+$${line.payout?.toFixed(0)}` : `@${line.odds}`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
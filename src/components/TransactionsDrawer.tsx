@@ -0,0 +1,84 @@
+import React from 'react';
+import { Drawer, DrawerContent, DrawerTitle } from './ui/drawer';
+import { Badge } from './ui/badge';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { GameState } from '../App';
+import { LedgerEntry, getPlayerAmount, reconcileWallet } from './utils/walletLedger';
+import { formatCurrency } from './utils/formatCurrency';
+
+interface TransactionsDrawerProps {
+  gameState: GameState;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ENTRY_LABELS: Record<LedgerEntry['type'], string> = {
+  'opening-balance': 'Opening balance',
+  'stake': 'Stake',
+  'payout': 'Payout',
+  'power-up-bonus': 'Power-up bonus',
+  'refund': 'Refund',
+  'cash-out': 'Cash out'
+};
+
+export function TransactionsDrawer({ gameState, isOpen, onClose }: TransactionsDrawerProps) {
+  const { wallet, ledger } = gameState;
+  const reconciliation = reconcileWallet(wallet, ledger);
+
+  // Newest first, with the running balance after each entry
+  let runningBalance = 0;
+  const rows = ledger.map(entry => {
+    runningBalance += getPlayerAmount(entry);
+    return { entry, balance: runningBalance };
+  }).reverse();
+
+  return (
+    <Drawer open={isOpen} onOpenChange={(open: boolean) => !open && onClose()}>
+      <DrawerContent className="max-h-[85vh] dark bg-background flex flex-col" aria-describedby={undefined}>
+        <DrawerTitle className="px-4 pt-4 text-foreground">Transactions</DrawerTitle>
+
+        {/* Reconciliation status */}
+        <div className="px-4 pt-3">
+          {reconciliation.isBalanced ? (
+            <div className="flex items-center gap-2 text-xs text-green-400 bg-green-500/10 border border-green-400/30 rounded-lg px-3 py-2">
+              <CheckCircle2 size={14} />
+              Wallet matches ledger (${formatCurrency(reconciliation.ledgerBalance, true)})
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-xs text-red-400 bg-red-500/10 border border-red-400/30 rounded-lg px-3 py-2">
+              <AlertTriangle size={14} />
+              Wallet is off by ${formatCurrency(reconciliation.difference, true)} - ledger balance ${formatCurrency(reconciliation.ledgerBalance, true)}
+            </div>
+          )}
+        </div>
+
+        <div className="px-4 py-3 space-y-2 overflow-y-auto flex-1 min-h-0">
+          {rows.map(({ entry, balance }) => {
+            const amount = getPlayerAmount(entry);
+            return (
+              <div key={entry.id} className="flex items-center justify-between bg-white/5 border border-white/10 rounded-lg px-3 py-2">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                      {ENTRY_LABELS[entry.type]}
+                    </Badge>
+                    <span className="text-[10px] text-muted-foreground">
+                      {new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                  </div>
+                  <p className="text-xs text-foreground truncate mt-1">{entry.description}</p>
+                </div>
+                <div className="text-right ml-3">
+                  <p className={`text-sm font-bold ${amount >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {amount >= 0 ? '+' : '-'}${formatCurrency(amount, true)}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">${formatCurrency(balance, true)}</p>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
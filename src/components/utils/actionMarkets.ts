@@ -0,0 +1,299 @@
+import { ActionEvent } from '../../App';
+import { MatchIncident, MatchIncidentType, MATCH_DURATION, EXPECTED_MATCH_LENGTH, INCIDENT_RATES, getMatchIncidents, getShotRate } from './matchEngine';
+import { PENALTY_CONVERSION } from './penaltyShootout';
+import { ExpectedGoals } from './teamRatings';
+import { priceMarket } from './pricing';
+
+export interface ActionMarket {
+  id: string;
+  description: string;
+  options: NonNullable<ActionEvent['bettingOptions']>;
+}
+
+/**
+ * How an action market is decided from the incidents in the match feed.
+ * `window` is the number of ticks (minutes of play) after the event the market
+ * covers, or null for markets that run until full time.
+ */
+interface ActionMarketRule {
+  window: number | null;
+  // Outcome decided by the incidents seen so far, or null if still open
+  decide: (incidents: MatchIncident[]) => string | null;
+  // Outcome once the window has closed without a decision; null voids the market
+  fallback: string | null;
+}
+
+const anyOf = (...types: MatchIncidentType[]) => (incidents: MatchIncident[]) =>
+  incidents.some(incident => types.includes(incident.type)) ? 'yes' : null;
+
+const firstOf = (type: MatchIncidentType, outcome: (incident: MatchIncident) => string) => (incidents: MatchIncident[]) => {
+  const first = incidents.find(incident => incident.type === type);
+  return first ? outcome(first) : null;
+};
+
+const byTeam = (incident: MatchIncident) => incident.team;
+
+const penaltyKick = (incidents: MatchIncident[]) => {
+  const kick = incidents.find(incident => incident.type === 'penalty-scored' || incident.type === 'penalty-missed');
+  return kick ? (kick.type === 'penalty-scored' ? 'yes' : 'no') : null;
+};
+
+const ACTION_MARKET_RULES: Record<string, ActionMarketRule> = {
+  'card-30': { window: 30, decide: anyOf('card'), fallback: 'no' },
+  'next-card-team': { window: null, decide: firstOf('card', byTeam), fallback: null },
+  'corner-45': { window: 45, decide: anyOf('corner'), fallback: 'no' },
+  'next-corner-team': { window: null, decide: firstOf('corner', byTeam), fallback: null },
+  'shot-on-target-60': { window: 60, decide: anyOf('shot-on-target'), fallback: 'no' },
+  'next-shot-team': { window: null, decide: firstOf('shot', byTeam), fallback: null },
+  'out-of-play-20': { window: 20, decide: anyOf('throw-in', 'corner', 'goal-kick'), fallback: 'no' },
+  'throw-in-30': { window: 30, decide: anyOf('throw-in'), fallback: 'no' },
+  'save-45': { window: 45, decide: firstOf('save', byTeam), fallback: 'neither' },
+  'goal-kick-30': { window: 30, decide: anyOf('goal-kick'), fallback: 'no' },
+  'free-kick-40': { window: 40, decide: anyOf('free-kick'), fallback: 'no' },
+  'next-foul-half': { window: null, decide: firstOf('foul', incident => incident.half ?? 'home-half'), fallback: null },
+  'substitution-120': { window: 120, decide: anyOf('substitution'), fallback: 'no' },
+  'offside-50': { window: 50, decide: anyOf('offside'), fallback: 'no' },
+  'next-goal-team': { window: null, decide: firstOf('goal', byTeam), fallback: 'no-goal' },
+  'watch-check-25': { window: 25, decide: anyOf('watch-check'), fallback: 'no' },
+  'crowd-reaction-35': { window: 35, decide: anyOf('crowd-reaction'), fallback: 'no' },
+  'second-half-goal-10': { window: 10, decide: anyOf('goal'), fallback: 'no' },
+  'penalty-scored': { window: 1, decide: penaltyKick, fallback: null }
+};
+
+export type ActionMarketSettlement =
+  | { status: 'settled'; outcome: string }
+  | { status: 'void' };
+
+/**
+ * Settle an action event against the incidents published to the match feed
+ * since it was offered. Returns null while the market's window is still open.
+ */
+export function settleActionEvent(
+  event: ActionEvent,
+  events: ActionEvent[],
+  currentTime: number,
+  matchFinished: boolean
+): ActionMarketSettlement | null {
+  const rule = event.marketId ? ACTION_MARKET_RULES[event.marketId] : undefined;
+  if (!rule) return null;
+
+  const windowEnd = rule.window === null ? Infinity : event.time + rule.window;
+  const observed = getMatchIncidents(events).filter(incident => incident.time > event.time && incident.time <= windowEnd);
+
+  const outcome = rule.decide(observed);
+  if (outcome) {
+    return { status: 'settled', outcome };
+  }
+
+  if (currentTime < windowEnd && !matchFinished) {
+    return null;
+  }
+
+  return rule.fallback ? { status: 'settled', outcome: rule.fallback } : { status: 'void' };
+}
+
+/**
+ * Offered at half-time, while play is stopped for the interval. Its window
+ * starts when the second half kicks off.
+ */
+export function getIntervalActionMarket({ expectedGoals }: Pick<ActionMarketContext, 'expectedGoals'>): ActionMarket {
+  const goals = (expectedGoals.home + expectedGoals.away) * ACTION_MARKET_RULES['second-half-goal-10'].window! / EXPECTED_MATCH_LENGTH;
+  return {
+    id: 'second-half-goal-10',
+    description: "Half-time special: will there be a goal in the first 10 minutes of the second half?",
+    options: yesNo(1 - Math.exp(-goals))
+  };
+}
+
+/**
+ * Offered before every kick of a penalty shoot-out; the kick is taken on the
+ * next tick.
+ */
+export function getPenaltyActionMarket({ taker, team }: { taker: string; team: string }): ActionMarket {
+  return {
+    id: 'penalty-scored',
+    description: `Penalty: will ${taker} score for ${team}?`,
+    options: yesNo(PENALTY_CONVERSION)
+  };
+}
+
+export interface ActionMarketContext {
+  time: number;
+  homeTeam: string;
+  awayTeam: string;
+  homeScore: number;
+  awayScore: number;
+  expectedGoals: ExpectedGoals;
+}
+
+// At least one occurrence of something with the given per-tick chance
+const atLeastOnce = (ratePerTick: number, ticks: number) => 1 - Math.pow(1 - ratePerTick, ticks);
+
+type PricedOption = { label: string; outcome: string; probability: number };
+
+const priceOptions = (options: PricedOption[]): ActionMarket['options'] => {
+  const odds = priceMarket(Object.fromEntries(options.map(option => [option.outcome, option.probability])));
+  return options.map(({ label, outcome }) => ({ label, outcome, odds: odds[outcome] }));
+};
+
+const yesNo = (probability: number): ActionMarket['options'] => priceOptions([
+  { label: 'Yes', outcome: 'yes', probability },
+  { label: 'No', outcome: 'no', probability: 1 - probability }
+]);
+
+/**
+ * Catalog of quick-fire action betting opportunities the match engine can offer.
+ * Some markets are only available at certain points of the match. Prices come
+ * from the same per-tick incident rates the engine plays out.
+ */
+export function getAvailableActionMarkets({ time, homeTeam, awayTeam, homeScore, awayScore, expectedGoals }: ActionMarketContext): ActionMarket[] {
+  const { onTarget, conversion, cornerFromSave, foul, cardPerFoul, throwIn, corner, offside, substitution, watchCheck, crowdReaction } = INCIDENT_RATES;
+  const homeShots = getShotRate(expectedGoals.home);
+  const awayShots = getShotRate(expectedGoals.away);
+  const shots = homeShots + awayShots;
+
+  // Ticks a market actually covers - nothing happens after full time
+  const ticks = (marketId: string) => {
+    const window = ACTION_MARKET_RULES[marketId].window;
+    return Math.max(1, Math.min(window ?? MATCH_DURATION, MATCH_DURATION - time));
+  };
+  const within = (marketId: string, ratePerTick: number) => atLeastOnce(ratePerTick, ticks(marketId));
+
+  // Saves are made by the goalkeeper facing the shot
+  const homeSaves = awayShots * onTarget * (1 - conversion);
+  const awaySaves = homeShots * onTarget * (1 - conversion);
+  const noSave = Math.pow((1 - homeSaves) * (1 - awaySaves), ticks('save-45'));
+
+  // Next goal over the rest of the match
+  const remainingGoals = (expectedGoals.home + expectedGoals.away) * Math.max(0, MATCH_DURATION - time) / MATCH_DURATION;
+  const noGoal = Math.exp(-remainingGoals);
+
+  return [
+    // Card-related bets
+    {
+      id: 'card-30',
+      description: "Will there be a card in the next 30 seconds?",
+      options: yesNo(within('card-30', foul * cardPerFoul))
+    },
+    {
+      id: 'next-card-team',
+      description: "Will the next card be shown to the home team?",
+      options: priceOptions([
+        { label: 'Home Team', outcome: 'home', probability: 0.5 },
+        { label: 'Away Team', outcome: 'away', probability: 0.5 }
+      ])
+    },
+
+    // Corner kick bets
+    {
+      id: 'corner-45',
+      description: "Will there be a corner kick in the next 45 seconds?",
+      options: yesNo(within('corner-45', corner + shots * onTarget * (1 - conversion) * cornerFromSave))
+    },
+    {
+      id: 'next-corner-team',
+      description: "Which team will win the next corner kick?",
+      options: priceOptions([
+        { label: homeTeam, outcome: 'home', probability: corner / 2 + homeShots * onTarget * (1 - conversion) * cornerFromSave },
+        { label: awayTeam, outcome: 'away', probability: corner / 2 + awayShots * onTarget * (1 - conversion) * cornerFromSave }
+      ])
+    },
+
+    // Shot attempts
+    {
+      id: 'shot-on-target-60',
+      description: "Will there be a shot on target in the next 60 seconds?",
+      options: yesNo(within('shot-on-target-60', shots * onTarget))
+    },
+    {
+      id: 'next-shot-team',
+      description: "Which team will have the next shot attempt?",
+      options: priceOptions([
+        { label: homeTeam, outcome: 'home', probability: homeShots },
+        { label: awayTeam, outcome: 'away', probability: awayShots }
+      ])
+    },
+
+    // Possession and play style
+    {
+      id: 'out-of-play-20',
+      description: "Will the ball go out of play in the next 20 seconds?",
+      options: yesNo(within('out-of-play-20', 1 - (1 - throwIn) * (1 - corner) * (1 - shots * (1 - onTarget))))
+    },
+    {
+      id: 'throw-in-30',
+      description: "Will there be a throw-in in the next 30 seconds?",
+      options: yesNo(within('throw-in-30', throwIn))
+    },
+
+    // Goalkeeper actions
+    {
+      id: 'save-45',
+      description: "Will the goalkeeper make a save in the next 45 seconds?",
+      options: priceOptions([
+        { label: 'Home GK', outcome: 'home', probability: (1 - noSave) * homeSaves / (homeSaves + awaySaves) },
+        { label: 'Away GK', outcome: 'away', probability: (1 - noSave) * awaySaves / (homeSaves + awaySaves) },
+        { label: 'Neither', outcome: 'neither', probability: noSave }
+      ])
+    },
+    {
+      id: 'goal-kick-30',
+      description: "Will there be a goalkeeper kick in the next 30 seconds?",
+      options: yesNo(within('goal-kick-30', shots * (1 - onTarget)))
+    },
+
+    // Free kicks and fouls
+    {
+      id: 'free-kick-40',
+      description: "Will there be a free kick awarded in the next 40 seconds?",
+      options: yesNo(within('free-kick-40', foul))
+    },
+    {
+      id: 'next-foul-half',
+      description: "Which half of the pitch will the next foul occur in?",
+      options: priceOptions([
+        { label: 'Home Half', outcome: 'home-half', probability: 0.5 },
+        { label: 'Away Half', outcome: 'away-half', probability: 0.5 }
+      ])
+    },
+
+    // Substitution bets (later in the match)
+    ...(time > 60 ? [{
+      id: 'substitution-120',
+      description: "Will there be a substitution in the next 2 minutes?",
+      options: yesNo(within('substitution-120', substitution))
+    }] : []),
+
+    // Offside calls
+    {
+      id: 'offside-50',
+      description: "Will there be an offside call in the next 50 seconds?",
+      options: yesNo(within('offside-50', offside))
+    },
+
+    // Next goal scorer (if match is active)
+    ...(time > 15 && time < 80 && (homeScore + awayScore) < 4 ? [{
+      id: 'next-goal-team',
+      description: "Who will score the next goal?",
+      options: priceOptions([
+        { label: homeTeam, outcome: 'home', probability: (1 - noGoal) * expectedGoals.home / (expectedGoals.home + expectedGoals.away) },
+        { label: awayTeam, outcome: 'away', probability: (1 - noGoal) * expectedGoals.away / (expectedGoals.home + expectedGoals.away) },
+        { label: 'No Goal', outcome: 'no-goal', probability: noGoal }
+      ])
+    }] : []),
+
+    // Time-based events
+    {
+      id: 'watch-check-25',
+      description: "Will the referee check his watch in the next 25 seconds?",
+      options: yesNo(within('watch-check-25', watchCheck))
+    },
+
+    // Crowd and atmosphere
+    {
+      id: 'crowd-reaction-35',
+      description: "Will there be a notable crowd reaction in the next 35 seconds?",
+      options: yesNo(within('crowd-reaction-35', 1 - (1 - crowdReaction) * (1 - shots * onTarget * conversion)))
+    }
+  ];
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { Bet } from '../../App';
+import { getSettlementPayout } from './betSettlement';
+import { priceAsianGoalLines, priceAsianHandicap, settleAsianLine, splitAsianLine } from './asianLines';
+
+const createBet = (odds: number): Bet => ({
+  id: 'asian-bet',
+  type: 'full-match',
+  outcome: 'home',
+  odds,
+  amount: 100,
+  timestamp: 0
+});
+
+describe('splitAsianLine', () => {
+  it('splits only quarter lines', () => {
+    expect(splitAsianLine(-1)).toEqual([-1]);
+    expect(splitAsianLine(2.5)).toEqual([2.5]);
+    expect(splitAsianLine(-1.25)).toEqual([-1.5, -1]);
+    expect(splitAsianLine(0.75)).toEqual([0.5, 1]);
+  });
+});
+
+describe('settleAsianLine', () => {
+  it('settles whole and half lines outright', () => {
+    expect(settleAsianLine(2, -1)).toBe('won');
+    expect(settleAsianLine(1, -1)).toBe('push');
+    expect(settleAsianLine(0, -1)).toBe('lost');
+    expect(settleAsianLine(1, -0.5)).toBe('won');
+    expect(settleAsianLine(0, -0.5)).toBe('lost');
+  });
+
+  it('settles quarter lines half on each neighbouring line', () => {
+    // -1.25 is half on -1 and half on -1.5
+    expect(settleAsianLine(2, -1.25)).toBe('won');
+    expect(settleAsianLine(1, -1.25)).toBe('half-lost');
+    expect(settleAsianLine(0, -1.25)).toBe('lost');
+    // +0.25 is half on 0 and half on +0.5
+    expect(settleAsianLine(0, 0.25)).toBe('half-won');
+    expect(settleAsianLine(-1, 0.25)).toBe('lost');
+    // Over 2.75 on three goals: 3 - 2.5 wins, 3 - 3 pushes
+    expect(settleAsianLine(3, -2.75)).toBe('half-won');
+  });
+
+  it('pays a split stake on each half', () => {
+    expect(getSettlementPayout(createBet(1.9), settleAsianLine(0, 0.25))).toBeCloseTo(145);
+    expect(getSettlementPayout(createBet(1.9), settleAsianLine(1, -1.25))).toBeCloseTo(50);
+  });
+});
+
+describe('Asian line pricing', () => {
+  it('offers handicaps around the current goal difference', () => {
+    const lines = priceAsianHandicap({ home: 1, away: 1 }, 1, 0).map(({ line }) => line);
+
+    expect(lines[0]).toBe(-4);
+    expect(lines[lines.length - 1]).toBe(2);
+  });
+
+  it('only offers goal lines above the goals already scored', () => {
+    const lines = priceAsianGoalLines({ home: 1, away: 1 }, 2);
+
+    expect(lines[0].line).toBe(2.25);
+    expect(lines.every(({ over, under }) => over > 1 && under > 1)).toBe(true);
+  });
+});
@@ -0,0 +1,147 @@
+import { ExpectedGoals } from './teamRatings';
+import { getScoreProbabilities, priceMarket } from './pricing';
+import { BetResult } from './betSettlement';
+
+/**
+ * Asian handicap and Asian goal lines.
+ *
+ * Both are two-way markets on a line in steps of a quarter goal. On a whole
+ * line (-1, 2) the stake is returned if the match lands exactly on it; half
+ * lines (-0.5, 2.5) can't land. A quarter line (-1.25, 2.75) splits the stake
+ * across the two neighbouring lines, so -1.25 is half on -1 and half on -1.5:
+ * a one-goal win is then half pushed and half lost.
+ *
+ * Handicap lines are quoted for the home side (the away side gets the same
+ * line with the sign flipped) and, like every market here, settle on the
+ * full-match score - the line already accounts for the score so far.
+ */
+
+export interface AsianHandicapPrice {
+  line: number; // Home handicap
+  home: number;
+  away: number;
+}
+
+export interface AsianGoalLinePrice {
+  line: number;
+  over: number;
+  under: number;
+}
+
+const LINE_STEP = 0.25;
+
+// Lines offered either side of the one that prices closest to even
+const HANDICAP_LINE_RANGE = 3;
+const GOAL_LINE_RANGE = 5;
+
+/**
+ * The lines a stake is split across: the line itself for whole and half
+ * lines, the two neighbouring half/whole lines for a quarter line.
+ */
+export function splitAsianLine(line: number): number[] {
+  return Number.isInteger(line * 2) ? [line] : [line - LINE_STEP, line + LINE_STEP];
+}
+
+/**
+ * Settle a selection on an Asian line: it wins each part of the line where
+ * `margin + part > 0` and pushes where it is exactly 0. For a handicap the
+ * margin is the backed side's goal difference and the line its handicap; an
+ * over is total goals against the negated goal line, an under the reverse.
+ */
+export function settleAsianLine(margin: number, line: number): BetResult {
+  const parts = splitAsianLine(line).map(part =>
+    margin + part > 0 ? 'won' : margin + part === 0 ? 'push' : 'lost'
+  );
+
+  if (parts.length === 1 || parts[0] === parts[1]) return parts[0];
+  // Quarter-line halves are half a goal apart, so they differ by one step at most
+  return parts.includes('won') ? 'half-won' : 'half-lost';
+}
+
+/**
+ * Price a two-way Asian line on the distribution of `margin` (see
+ * settleAsianLine). A push hands the stake back, so the fair price is what
+ * makes the expected return 1 once pushes are taken out: the outcomes are
+ * priced on their chances of winning relative to each other.
+ */
+function priceAsianLine(distribution: [number, number][], line: number): { first: number; second: number } {
+  const parts = splitAsianLine(line);
+  let first = 0;
+  let second = 0;
+
+  parts.forEach(part => distribution.forEach(([margin, probability]) => {
+    if (margin + part > 0) first += probability / parts.length;
+    else if (margin + part < 0) second += probability / parts.length;
+  }));
+
+  return priceMarket({ first, second });
+}
+
+// Chance of each final value of `measure`, given each side's remaining goals
+function getDistribution(remaining: ExpectedGoals, measure: (homeGoals: number, awayGoals: number) => number): [number, number][] {
+  const distribution = new Map<number, number>();
+  getScoreProbabilities(remaining).forEach((row, homeGoals) => row.forEach((probability, awayGoals) => {
+    const value = measure(homeGoals, awayGoals);
+    distribution.set(value, (distribution.get(value) ?? 0) + probability);
+  }));
+  return [...distribution];
+}
+
+const lineRange = (from: number, to: number) =>
+  Array.from({ length: Math.round((to - from) / LINE_STEP) + 1 }, (_, index) => from + index * LINE_STEP);
+
+/**
+ * Price handicap lines around the current goal difference: a side leading by
+ * one is priced from -4 to +2.
+ */
+export function priceAsianHandicap(remaining: ExpectedGoals, homeScore: number, awayScore: number): AsianHandicapPrice[] {
+  const lead = homeScore - awayScore;
+  const distribution = getDistribution(remaining, (homeGoals, awayGoals) => lead + homeGoals - awayGoals);
+
+  return lineRange(-lead - HANDICAP_LINE_RANGE, -lead + HANDICAP_LINE_RANGE).map(line => {
+    const { first, second } = priceAsianLine(distribution, line);
+    return { line, home: first, away: second };
+  });
+}
+
+/**
+ * Price goal lines above the goals already scored. A line the total has
+ * reached is off the board: the over can no longer lose on it.
+ */
+export function priceAsianGoalLines(remaining: ExpectedGoals, goalsScored: number): AsianGoalLinePrice[] {
+  const distribution = getDistribution(remaining, (homeGoals, awayGoals) => goalsScored + homeGoals + awayGoals);
+
+  return lineRange(goalsScored + LINE_STEP, goalsScored + GOAL_LINE_RANGE).map(line => {
+    // The over wins when the total beats the line: total + (-line) > 0
+    const { first, second } = priceAsianLine(distribution, -line);
+    return { line, over: first, under: second };
+  });
+}
+
+/**
+ * The main line - the one priced closest to even - with `count` lines around
+ * it. This is where the board moves as the match is re-priced.
+ */
+export function getMainAsianLines<P extends { line: number }>(
+  prices: P[],
+  getOdds: (price: P) => [number, number],
+  count: number = 5
+): { lines: P[]; mainLine: number | null } {
+  if (prices.length === 0) return { lines: [], mainLine: null };
+
+  const balance = (price: P) => {
+    const [first, second] = getOdds(price);
+    return Math.abs(first - second);
+  };
+  const mainIndex = prices.reduce((best, price, index) => balance(price) < balance(prices[best]) ? index : best, 0);
+  const start = Math.max(0, Math.min(prices.length - count, mainIndex - Math.floor(count / 2)));
+
+  return { lines: prices.slice(start, start + count), mainLine: prices[mainIndex].line };
+}
+
+/**
+ * A handicap line as quoted for one side, e.g. '+0.75' or '-1.25'.
+ */
+export function formatHandicap(line: number): string {
+  return line > 0 ? `+${line}` : line === 0 ? '0' : `${line}`;
+}
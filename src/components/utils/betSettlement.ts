@@ -0,0 +1,149 @@
+import { Bet, BetLeg, MatchData } from '../../App';
+import { combineOdds } from './pricing';
+import { MatchScore, getBetSelection, settleSelection } from './matchMarkets';
+import { getOpenStake } from './cashOut';
+
+/**
+ * How a bet (or accumulator leg) settled. A void bet never stood - its market
+ * was abandoned or, like a drawn Draw No Bet, refunds by rule - while a push
+ * landed exactly on its line. Both hand the stake back. Asian quarter lines
+ * split the stake, so half of it can win or lose while the other half pushes.
+ */
+export type BetResult = 'won' | 'half-won' | 'push' | 'void' | 'half-lost' | 'lost';
+
+// Share of the stake that wins at the bet's odds, and share that is handed back
+const RESULT_SHARES: Record<BetResult, { won: number; returned: number }> = {
+  'won': { won: 1, returned: 0 },
+  'half-won': { won: 0.5, returned: 0.5 },
+  'push': { won: 0, returned: 1 },
+  'void': { won: 0, returned: 1 },
+  'half-lost': { won: 0, returned: 0.5 },
+  'lost': { won: 0, returned: 0 }
+};
+
+export const BET_RESULT_LABELS: Record<BetResult, string> = {
+  'won': 'Won',
+  'half-won': 'Half won',
+  'push': 'Push',
+  'void': 'Void',
+  'half-lost': 'Half lost',
+  'lost': 'Lost'
+};
+
+export interface BetSettlement {
+  bet: Bet;
+  result: BetResult;
+  payout: number;
+}
+
+export function isWinningResult(result: BetResult | undefined): boolean {
+  return result !== undefined && RESULT_SHARES[result].won > 0;
+}
+
+// Settled without winning, but with some or all of the stake handed back
+export function isStakeReturned(result: BetResult | undefined): boolean {
+  return result !== undefined && RESULT_SHARES[result].won === 0 && RESULT_SHARES[result].returned > 0;
+}
+
+/**
+ * The result of a bet settled by what it paid back in all, e.g. a system bet
+ * from its lines: won when it returned more than its stake, pushed on the
+ * stake exactly, half lost when some of the stake came back.
+ */
+export function getReturnResult(payout: number, stake: number): BetResult {
+  // Compare in cents, as line payouts are fractional
+  const difference = Math.round(payout * 100) - Math.round(stake * 100);
+  if (difference > 0) return 'won';
+  if (difference === 0) return 'push';
+  return payout > 0 ? 'half-lost' : 'lost';
+}
+
+/**
+ * What each unit staked at `odds` returns for a result, e.g. (odds + 1) / 2
+ * for a half-won quarter line.
+ */
+export function getReturnMultiplier(result: BetResult, odds: number, powerUpMultiplier: number = 1): number {
+  const { won, returned } = RESULT_SHARES[result];
+  return won * odds * powerUpMultiplier + returned;
+}
+
+/**
+ * What a single bet pays for a result. Only the stake that wasn't cashed out
+ * is still riding on it; a power-up doubles the winnings, not the stake handed back.
+ */
+export function getSettlementPayout(bet: Bet, result: BetResult): number {
+  return getOpenStake(bet) * getReturnMultiplier(result, bet.odds, bet.powerUpApplied ? 2 : 1);
+}
+
+/**
+ * Whether any unsettled bet - a single or an accumulator leg - depends on the match.
+ */
+export function hasOpenBetsOnMatch(bets: Bet[], matchId: string): boolean {
+  return bets.some(bet => !bet.resolved && (
+    bet.matchId === matchId ||
+    (bet.legs ?? []).some(leg => leg.matchId === matchId && !leg.result)
+  ));
+}
+
+/**
+ * Settle single bets against a match's final score.
+ */
+export function settleMatchResultBets(bets: Bet[], match: MatchData): BetSettlement[] {
+  return bets
+    .filter(bet => !bet.resolved)
+    .map(bet => {
+      const result = settleSelection(getBetSelection(bet), match);
+      return { bet, result, payout: getSettlementPayout(bet, result) };
+    });
+}
+
+/**
+ * Void bets on a match that will never finish (e.g. the user walked out of it).
+ * The stake is handed back as the payout.
+ */
+export function voidBets(bets: Bet[]): BetSettlement[] {
+  return bets
+    .filter(bet => !bet.resolved)
+    .map(bet => ({ bet, result: 'void', payout: getSettlementPayout(bet, 'void') }));
+}
+
+/**
+ * Record an accumulator leg's result once its match is over ('void' for a match
+ * that was abandoned). The bet is lost as soon as any leg loses and settles
+ * when the last leg has a result. Each leg counts at what it returns per unit
+ * staked: odds of 1 for a void or push, (odds + 1) / 2 when half won and 0.5
+ * when half lost.
+ */
+export function settleAccumulatorLeg(
+  bet: Bet,
+  matchId: string,
+  finalScore: MatchScore | 'void'
+): { legs: BetLeg[]; settlement: BetSettlement | null } {
+  const legs = (bet.legs ?? []).map(leg => {
+    if (leg.matchId !== matchId || leg.result) return leg;
+    const result: BetLeg['result'] = finalScore === 'void' ? 'void' : settleSelection(leg, finalScore);
+    return { ...leg, result };
+  });
+
+  if (legs.some(leg => leg.result === 'lost')) {
+    return { legs, settlement: { bet, result: 'lost', payout: 0 } };
+  }
+
+  if (!legs.every(leg => leg.result)) {
+    return { legs, settlement: null };
+  }
+
+  if (legs.every(leg => leg.result === 'void' || leg.result === 'push')) {
+    return { legs, settlement: { bet, result: 'void', payout: bet.amount } };
+  }
+
+  const combined = combineOdds(legs.map(leg => getReturnMultiplier(leg.result!, leg.odds)));
+  if (!legs.some(leg => isWinningResult(leg.result))) {
+    // Nothing won, but half-lost legs still hand part of the stake back
+    return { legs, settlement: { bet, result: 'half-lost', payout: bet.amount * combined } };
+  }
+
+  const multiplier = bet.powerUpApplied ? 2 : 1;
+  const payout = bet.amount * combined * multiplier;
+  return { legs, settlement: { bet, result: 'won', payout } };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Bet } from '../../App';
+import { CashOutRecord, applyCashOut, getOpenStake } from './cashOut';
+
+const bet: Bet = {
+  id: 'bet-1',
+  type: 'full-match',
+  outcome: 'home',
+  odds: 3,
+  amount: 100,
+  timestamp: 0,
+  matchId: 'match-1'
+};
+
+const createCashOut = (stake: number, value: number): CashOutRecord => ({
+  stake,
+  value,
+  minute: 60,
+  timestamp: 0,
+  trigger: 'manual'
+});
+
+const createState = () => ({ activeBets: [bet], ledger: [], wallet: 0 });
+
+describe('applyCashOut', () => {
+  it('keeps a partly cashed-out bet open on the rest of its stake', () => {
+    const { activeBets, wallet } = applyCashOut(createState(), bet.id, createCashOut(40, 70));
+
+    expect(activeBets[0].resolved).toBeUndefined();
+    expect(getOpenStake(activeBets[0])).toBe(60);
+    expect(wallet).toBe(70);
+  });
+
+  it('settles a bet cashed out in full as won only for more than its stake', () => {
+    const profit = applyCashOut(createState(), bet.id, createCashOut(100, 150)).activeBets[0];
+    const loss = applyCashOut(createState(), bet.id, createCashOut(100, 60)).activeBets[0];
+
+    expect(profit).toMatchObject({ resolved: true, cashedOut: true, won: true });
+    expect(loss).toMatchObject({ resolved: true, cashedOut: true, won: false });
+  });
+
+  it('counts earlier partial cash-outs towards the result', () => {
+    const partly = applyCashOut(createState(), bet.id, createCashOut(50, 80));
+    const settled = applyCashOut(partly, bet.id, createCashOut(50, 30)).activeBets[0];
+
+    expect(settled.won).toBe(true);
+  });
+
+  it('leaves a bet with less stake open than the cash-out alone', () => {
+    const state = createState();
+    expect(applyCashOut(state, bet.id, createCashOut(120, 150))).toBe(state);
+  });
+});
@@ -0,0 +1,155 @@
+import { Bet, MatchData, ActionEvent, GameState } from '../../App';
+import { MatchMarkets, getBetSelection, getSelectionPrice } from './matchMarkets';
+import { createLedgerEntry, describeBet, postLedgerEntries } from './walletLedger';
+
+/**
+ * Cash out.
+ *
+ * An open bet can be sold back to the house before it settles, in full or in
+ * part. The offer is what the bet's potential return is worth at the current
+ * in-play price of its selection: backing a selection at 4.0 that now trades
+ * at 2.0 is worth half the potential return. The in-play price already carries
+ * the house margin, so no further deduction is taken.
+ *
+ * Every cash-out is recorded on the bet. What is left of the stake keeps
+ * running and settles at the bet's original odds.
+ */
+
+export interface CashOutRecord {
+  stake: number; // Portion of the stake cashed out
+  value: number; // Amount paid for it
+  minute: number;
+  timestamp: number;
+  trigger: 'manual' | AutoCashOutRule['type'];
+}
+
+// Standing instructions, checked after every tick of the match engine
+export type AutoCashOutRule =
+  | { type: 'value-target'; multiple: number } // Cash out once the offer reaches `multiple` x the open stake
+  | { type: 'team-concedes'; team: 'home' | 'away' }; // Cash out as soon as `team` concedes
+
+export function getCashedOutStake(bet: Bet): number {
+  return (bet.cashOuts ?? []).reduce((sum, record) => sum + record.stake, 0);
+}
+
+export function getCashedOutValue(bet: Bet): number {
+  return (bet.cashOuts ?? []).reduce((sum, record) => sum + record.value, 0);
+}
+
+/**
+ * Stake still riding on the bet's outcome.
+ */
+export function getOpenStake(bet: Bet): number {
+  return Math.round((bet.amount - getCashedOutStake(bet)) * 100) / 100;
+}
+
+/**
+ * Everything the bet has paid back - its settlement plus any cash-outs.
+ */
+export function getTotalReturn(bet: Bet): number {
+  return (bet.payout || 0) + getCashedOutValue(bet);
+}
+
+export function isCashOutEligible(bet: Bet): boolean {
+  return bet.type === 'full-match' && !bet.resolved && getOpenStake(bet) > 0;
+}
+
+/**
+ * Current cash-out offer for the open stake of a bet, or null when the bet
+ * can't be cashed out (including when its market has been taken off the board).
+ */
+export function getCashOutValue(bet: Bet, match: MatchData | null, markets: MatchMarkets): number | null {
+  if (!isCashOutEligible(bet) || !match || match.status === 'finished') return null;
+  if (bet.matchId && bet.matchId !== match.id) return null;
+
+  const currentOdds = getSelectionPrice(getBetSelection(bet), match, markets);
+  if (!currentOdds) return null;
+
+  const potentialReturn = getOpenStake(bet) * bet.odds * (bet.powerUpApplied ? 2 : 1);
+  // Rounded down to the cent, like the odds themselves
+  return Math.floor(potentialReturn / currentOdds * 100) / 100;
+}
+
+/**
+ * Cash out `fraction` of a bet's open stake at the current offer.
+ */
+export function createCashOut(
+  bet: Bet,
+  match: MatchData | null,
+  markets: MatchMarkets,
+  fraction: number,
+  trigger: CashOutRecord['trigger'] = 'manual'
+): CashOutRecord | null {
+  const value = getCashOutValue(bet, match, markets);
+  if (value === null || !match || fraction <= 0) return null;
+
+  const share = Math.min(fraction, 1);
+  const openStake = getOpenStake(bet);
+
+  return {
+    stake: share === 1 ? openStake : Math.round(openStake * share * 100) / 100,
+    value: Math.floor(value * share * 100) / 100,
+    minute: match.timeElapsed,
+    timestamp: Date.now(),
+    trigger
+  };
+}
+
+export function describeAutoCashOutRule(rule: AutoCashOutRule, match: Pick<MatchData, 'homeTeam' | 'awayTeam'>): string {
+  if (rule.type === 'value-target') {
+    return `Cash out at ${rule.multiple}x stake`;
+  }
+  return `Cash out if ${rule.team === 'home' ? match.homeTeam : match.awayTeam} concede`;
+}
+
+/**
+ * The first of a bet's auto cash-out rules that this tick has triggered, if
+ * any. `events` are the events the tick produced.
+ */
+export function getTriggeredAutoCashOut(
+  bet: Bet,
+  match: MatchData,
+  markets: MatchMarkets,
+  events: ActionEvent[]
+): AutoCashOutRule | null {
+  const value = getCashOutValue(bet, match, markets);
+  if (value === null) return null;
+
+  return (bet.autoCashOut ?? []).find(rule => {
+    if (rule.type === 'value-target') {
+      return value >= getOpenStake(bet) * rule.multiple;
+    }
+    return events.some(event =>
+      event.type === 'goal' && event.scoringTeam !== undefined && event.scoringTeam !== rule.team
+    );
+  }) ?? null;
+}
+
+type CashOutState = Pick<GameState, 'activeBets' | 'ledger' | 'wallet'>;
+
+/**
+ * Take some or all of a bet's open stake off the table and pay for it through
+ * the ledger; the bet settles once nothing is left. A bet that has settled, or
+ * has less stake open than the cash-out, is left as it is.
+ */
+export function applyCashOut(state: CashOutState, betId: string, cashOut: CashOutRecord): CashOutState {
+  const targetBet = state.activeBets.find(bet => bet.id === betId);
+  if (!targetBet || targetBet.resolved || cashOut.stake > getOpenStake(targetBet)) return state;
+
+  const cashOuts = [...(targetBet.cashOuts ?? []), cashOut];
+  const fullyCashedOut = getOpenStake({ ...targetBet, cashOuts }) <= 0;
+  // A bet cashed out in full has won only if the cash-outs paid back more than it staked
+  const won = getCashedOutValue({ ...targetBet, cashOuts }) > targetBet.amount;
+  const label = cashOut.stake < targetBet.amount ? 'Partial cash out' : 'Cash out';
+
+  return {
+    activeBets: state.activeBets.map(bet =>
+      bet.id !== betId ? bet :
+      fullyCashedOut ? { ...bet, cashOuts, resolved: true, won, payout: 0, cashedOut: true } :
+      { ...bet, cashOuts }
+    ),
+    ...postLedgerEntries(state.ledger, [
+      createLedgerEntry('cash-out', cashOut.value, `${label} • ${describeBet(targetBet)}`, betId)
+    ])
+  };
+}
@@ -0,0 +1,185 @@
+import { MatchData } from '../../App';
+import { EXTRA_TIME_DURATION, MATCH_DURATION, createMatchEngine, getMatchUpdate, simulateMatch } from './matchEngine';
+import { TEAMS, getExpectedGoals, getOpeningOdds } from './teamRatings';
+import { getResultProbabilities, priceMarket } from './pricing';
+
+/**
+ * Cup competition: a 16-team knockout bracket.
+ *
+ * The clubs are drawn into a fixed order and each round pairs neighbouring
+ * winners - the winner of the upper tie at home - so every path to the final
+ * is known from the start. Ties are ordinary knockout matches played on the
+ * engine: the one the user follows is played live, the rest are simulated.
+ */
+
+export const CUP_ROUND_NAMES = ['Round of 16', 'Quarter-finals', 'Semi-finals', 'Final'];
+
+export interface CupCompetition {
+  id: string;
+  teams: string[]; // In draw order: the first tie is teams[0] v teams[1], and so on
+  rounds: MatchData[][]; // Ties of each round drawn so far; a round is drawn once the one before has finished
+}
+
+export interface CupWinnerPrice {
+  team: string;
+  odds: number;
+}
+
+const createCupTie = (cupId: string, round: number, index: number, homeTeam: string, awayTeam: string): MatchData => ({
+  id: `${cupId}-${round}-${index}`,
+  homeTeam,
+  awayTeam,
+  ...getOpeningOdds(homeTeam, awayTeam),
+  homeScore: 0,
+  awayScore: 0,
+  status: 'not-started',
+  timeElapsed: 0,
+  playerCount: Math.floor(Math.random() * 150) + 25,
+  knockout: true
+});
+
+// Pairs of neighbouring entries: [a, b, c, d] -> [[a, b], [c, d]]
+const pairUp = <T>(entries: T[]): [T, T][] =>
+  Array.from({ length: entries.length / 2 }, (_, index) => [entries[index * 2], entries[index * 2 + 1]]);
+
+export function createCup(teams: string[] = TEAMS, random: () => number = Math.random): CupCompetition {
+  const id = `cup-${Date.now()}`;
+
+  // Fisher-Yates shuffle for the draw
+  const drawn = [...teams];
+  for (let i = drawn.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [drawn[i], drawn[j]] = [drawn[j], drawn[i]];
+  }
+
+  return {
+    id,
+    teams: drawn,
+    rounds: [pairUp(drawn).map(([home, away], index) => createCupTie(id, 0, index, home, away))]
+  };
+}
+
+export function getTieWinner(tie: MatchData): string | null {
+  if (tie.status !== 'finished' || !tie.winner) return null;
+  return tie.winner === 'home' ? tie.homeTeam : tie.awayTeam;
+}
+
+/**
+ * Index of the round being played, or null once the final is over.
+ */
+export function getCurrentRound(cup: CupCompetition): number | null {
+  const round = cup.rounds.findIndex(ties => ties.some(tie => !getTieWinner(tie)));
+  return round === -1 ? null : round;
+}
+
+export function getCupWinner(cup: CupCompetition): string | null {
+  const final = cup.rounds[CUP_ROUND_NAMES.length - 1];
+  return final ? getTieWinner(final[0]) : null;
+}
+
+export function isCupTie(cup: CupCompetition | null, matchId: string): boolean {
+  return !!cup && cup.rounds.some(ties => ties.some(tie => tie.id === matchId));
+}
+
+// Once every tie of the latest round is decided, its winners are paired up for the next one
+function drawNextRound(cup: CupCompetition): CupCompetition {
+  const latest = cup.rounds[cup.rounds.length - 1];
+  const winners = latest.map(getTieWinner);
+  if (latest.length < 2 || winners.some(winner => !winner)) return cup;
+
+  const round = cup.rounds.length;
+  return {
+    ...cup,
+    rounds: [
+      ...cup.rounds,
+      pairUp(winners as string[]).map(([home, away], index) => createCupTie(cup.id, round, index, home, away))
+    ]
+  };
+}
+
+/**
+ * Record the result of a tie played elsewhere, e.g. the one the user watched.
+ */
+export function recordCupResult(cup: CupCompetition, match: MatchData): CupCompetition {
+  return drawNextRound({
+    ...cup,
+    rounds: cup.rounds.map(ties => ties.map(tie => tie.id === match.id ? { ...tie, ...match } : tie))
+  });
+}
+
+/**
+ * Play out every tie of the current round that hasn't been played yet.
+ */
+export function playCupRound(cup: CupCompetition): CupCompetition {
+  const round = getCurrentRound(cup);
+  if (round === null) return cup;
+
+  return drawNextRound({
+    ...cup,
+    rounds: cup.rounds.map((ties, index) => index !== round ? ties : ties.map(tie => {
+      if (getTieWinner(tie)) return tie;
+      const { state } = simulateMatch(createMatchEngine(tie));
+      return { ...tie, ...getMatchUpdate(state) };
+    }))
+  });
+}
+
+/**
+ * Chance the home side of a tie goes through: the 90 minutes, then extra time
+ * at the same scoring rates, then a shoot-out that either side can win.
+ */
+export function getTieWinProbability(homeTeam: string, awayTeam: string): number {
+  const expectedGoals = getExpectedGoals(homeTeam, awayTeam);
+  const share = EXTRA_TIME_DURATION / MATCH_DURATION;
+
+  const regularTime = getResultProbabilities(expectedGoals);
+  const extraTime = getResultProbabilities({ home: expectedGoals.home * share, away: expectedGoals.away * share });
+  return regularTime.home + regularTime.draw * (extraTime.home + extraTime.draw * 0.5);
+}
+
+/**
+ * Chance each club lifts the cup. Works through the bracket a round at a time:
+ * a club reaches the next round by beating whoever comes out of the
+ * neighbouring block of the draw, and ties already played count as they went.
+ */
+export function getCupWinnerProbabilities(cup: CupCompetition): Record<string, number> {
+  let reach: Record<string, number> = Object.fromEntries(cup.teams.map(team => [team, 1]));
+
+  CUP_ROUND_NAMES.forEach((_, round) => {
+    const blockSize = 2 ** round;
+    const played = (cup.rounds[round] ?? []).filter(tie => getTieWinner(tie));
+
+    reach = Object.fromEntries(cup.teams.map((team, position) => {
+      const tie = played.find(({ homeTeam, awayTeam }) => homeTeam === team || awayTeam === team);
+      if (tie) return [team, getTieWinner(tie) === team ? 1 : 0];
+
+      const block = Math.floor(position / blockSize);
+      const opponentBlock = block ^ 1;
+      const atHome = block < opponentBlock;
+      const winChance = cup.teams
+        .slice(opponentBlock * blockSize, (opponentBlock + 1) * blockSize)
+        .reduce((sum, opponent) => sum + reach[opponent] * (
+          atHome ? getTieWinProbability(team, opponent) : 1 - getTieWinProbability(opponent, team)
+        ), 0);
+
+      return [team, reach[team] * winChance];
+    }));
+  });
+
+  return reach;
+}
+
+/**
+ * Outright cup winner prices for the clubs still in, favourites first. Prices
+ * shorten as clubs go through and the field thins out.
+ */
+export function getCupWinnerPrices(cup: CupCompetition): CupWinnerPrice[] {
+  if (getCupWinner(cup)) return [];
+
+  const probabilities = getCupWinnerProbabilities(cup);
+  const contenders = Object.fromEntries(Object.entries(probabilities).filter(([, probability]) => probability > 0));
+
+  return Object.entries(priceMarket(contenders))
+    .map(([team, odds]) => ({ team, odds }))
+    .sort((a, b) => a.odds - b.odds);
+}
@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActionEvent, Bet, GameState } from '../../App';
+import { MatchEngineState, simulateMatch } from './matchEngine';
+import { KICK_OFF } from './pitchPositions';
+import {
+  GAME_STATE_SCHEMA_VERSION,
+  GAME_STATE_STORAGE_KEY,
+  loadGameState,
+  migrateGameState,
+  saveGameState
+} from './gameStorage';
+
+const fallback = {
+  phase: 'lobby',
+  wallet: 10000,
+  currentMatch: null,
+  matchEngine: null,
+  lobbyMatches: [],
+  activeBets: [],
+  matchEvents: [],
+  settings: { betAnimations: false }
+} as unknown as GameState;
+
+const createSave = (version: number, state: Record<string, unknown> = {}) => ({ version, savedAt: 0, state });
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); }
+  };
+};
+
+beforeEach(() => {
+  vi.stubGlobal('window', { localStorage: createStorage() });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('migrateGameState', () => {
+  it('passes a current save through', () => {
+    const state = { wallet: 500 };
+    expect(migrateGameState(createSave(GAME_STATE_SCHEMA_VERSION, state))).toEqual(state);
+  });
+
+  it('rejects saves it has no way to migrate', () => {
+    expect(migrateGameState(createSave(0))).toBeNull();
+    expect(migrateGameState(createSave(GAME_STATE_SCHEMA_VERSION + 1))).toBeNull();
+  });
+});
+
+// A v1 save from the middle of a match: Arsenal scored before half-time and Chelsea after it
+const createV1State = (): Record<string, unknown> => ({
+  phase: 'match',
+  wallet: 950,
+  currentMatch: { id: 'match-1', homeTeam: 'Arsenal', awayTeam: 'Chelsea', homeScore: 1, awayScore: 1, status: 'live', timeElapsed: 60 },
+  matchEngine: {
+    matchId: 'match-1',
+    homeTeam: 'Arsenal',
+    awayTeam: 'Chelsea',
+    seed: 99,
+    rng: 2019144000,
+    tick: 60,
+    homeScore: 1,
+    awayScore: 1,
+    expectedGoals: { home: 1.7, away: 1.05 },
+    openingOdds: { home: 2.1, draw: 3.4, away: 3.5 },
+    odds: { home: 2.88, draw: 1.99, away: 4.93 },
+    lastGoal: { time: 57, team: 'away' },
+    incidents: [
+      { time: 12, type: 'foul', team: 'away', half: 'home-half' },
+      { time: 19, type: 'goal', team: 'home' },
+      { time: 41, type: 'card', team: 'away' },
+      { time: 57, type: 'goal', team: 'away' }
+    ],
+    eventCount: 2,
+    finished: false
+  },
+  matchEvents: [
+    { id: 'match-1-1', time: 19, type: 'goal', description: 'GOAL! Arsenal scores!', scoringTeam: 'home' },
+    { id: 'match-1-2', time: 57, type: 'goal', description: 'GOAL! Chelsea scores!', scoringTeam: 'away' }
+  ],
+  lobbyMatches: [
+    { id: 'match-2', homeTeam: 'Liverpool', awayTeam: 'PSG', status: 'not-started', startTime: '15:00' },
+    { id: 'match-3', homeTeam: 'Juventus', awayTeam: 'AC Milan', status: 'live', startTime: '14:00' }
+  ],
+  activeBets: [
+    { id: 'open-bet', type: 'full-match', outcome: 'home', odds: 2.1, amount: 25, timestamp: 0, matchId: 'match-1' },
+    { id: 'won-bet', type: 'lobby', outcome: 'draw', odds: 3, amount: 25, timestamp: 0, resolved: true, won: true, payout: 75 }
+  ],
+  settings: { betAnimations: true }
+});
+
+describe('migrating a v1 save', () => {
+  it('brings a match in progress up to the current schema', () => {
+    const migrated = migrateGameState(createSave(1, createV1State()));
+    expect(migrated).not.toBeNull();
+
+    // The balance carries over as the opening ledger entry
+    expect(migrated!.ledger).toEqual([expect.objectContaining({ type: 'opening-balance', amount: 950 })]);
+
+    // Settled bets record their result
+    const bets = migrated!.activeBets as Bet[];
+    expect(bets.find(({ id }) => id === 'won-bet')?.result).toBe('won');
+    expect(bets.find(({ id }) => id === 'open-bet')?.result).toBeUndefined();
+
+    // Incidents move to the feed; goals are there already
+    const events = migrated!.matchEvents as ActionEvent[];
+    expect(events.map(({ time, type }) => [time, type])).toEqual([
+      [12, 'foul'],
+      [19, 'goal'],
+      [41, 'card'],
+      [57, 'goal']
+    ]);
+
+    const engine = migrated!.matchEngine as MatchEngineState;
+    expect(engine).not.toHaveProperty('incidents');
+    expect(engine.halfTimeScore).toEqual({ homeScore: 1, awayScore: 0 });
+    expect(engine.goalscorers).toEqual([null, null]);
+    expect(engine.ball).toEqual(KICK_OFF);
+    expect(engine.period).toBe('second-half');
+    expect(engine.knockout).toBe(false);
+    expect(engine.markets).toBeDefined();
+
+    // Kick-off times are timestamps; only an upcoming match needs one
+    const [upcoming, live] = migrated!.lobbyMatches as Record<string, unknown>[];
+    expect(typeof upcoming.startTime).toBe('number');
+    expect(live.startTime).toBeUndefined();
+  });
+
+  it('leaves a match that plays on to full time from where it was saved', () => {
+    const engine = migrateGameState(createSave(1, createV1State()))!.matchEngine as MatchEngineState;
+    const { state } = simulateMatch(engine);
+
+    expect(state.finished).toBe(true);
+    expect(state.homeScore).toBeGreaterThanOrEqual(1);
+    expect(state.awayScore).toBeGreaterThanOrEqual(1);
+    expect(state.goalscorers).toHaveLength(state.homeScore + state.awayScore);
+  });
+
+  it('loads it back into the match', () => {
+    window.localStorage.setItem(GAME_STATE_STORAGE_KEY, JSON.stringify(createSave(1, createV1State())));
+
+    const restored = loadGameState(fallback);
+    expect(restored.phase).toBe('match');
+    expect(restored.wallet).toBe(950);
+    expect(restored.matchEngine?.tick).toBe(60);
+    expect(restored.settings.betAnimations).toBe(true);
+  });
+});
+
+describe('loadGameState', () => {
+  it('falls back without a usable save', () => {
+    expect(loadGameState(fallback)).toBe(fallback);
+
+    window.localStorage.setItem(GAME_STATE_STORAGE_KEY, '{not json');
+    expect(loadGameState(fallback)).toBe(fallback);
+  });
+
+  it('restores a saved game, keeping defaults for settings it lacks', () => {
+    saveGameState({ ...fallback, wallet: 420, settings: {} } as unknown as GameState);
+
+    const restored = loadGameState(fallback);
+    expect(restored.wallet).toBe(420);
+    expect(restored.settings).toEqual(fallback.settings);
+  });
+
+  it('returns to the lobby from a match saved without its engine', () => {
+    const currentMatch = { id: 'match-1', homeTeam: 'Arsenal', awayTeam: 'Chelsea' };
+    saveGameState({ ...fallback, phase: 'match', currentMatch } as unknown as GameState);
+
+    const restored = loadGameState(fallback);
+    expect(restored.phase).toBe('lobby');
+    expect(restored.currentMatch).toBeNull();
+  });
+});
@@ -0,0 +1,298 @@
+import { ActionEvent, Bet, GameState } from '../../App';
+import { LedgerEntry, createLedgerEntry } from './walletLedger';
+import {
+  HALF_TIME,
+  MATCH_DURATION,
+  MatchEngineState,
+  MatchIncident,
+  NO_STOPPAGE_TIME,
+  describeIncident,
+  priceEngineMarkets
+} from './matchEngine';
+import { KICK_OFF } from './pitchPositions';
+
+/**
+ * Local persistence for GameState.
+ *
+ * Saves are wrapped with a schema version. When GameState (or Bet, MatchData,
+ * ...) changes shape in a way older saves can't satisfy, bump
+ * GAME_STATE_SCHEMA_VERSION and add a migration from the previous version, so
+ * existing players keep their wallet and bets instead of loading a broken save.
+ */
+
+export const GAME_STATE_STORAGE_KEY = 'soccer-betting-game:state';
+export const GAME_STATE_SCHEMA_VERSION = 12;
+
+interface StoredGameState {
+  version: number;
+  state: Record<string, unknown>;
+}
+
+// Settled bets kept in a save; older ones live on in the ledger
+const STORED_SETTLED_BETS = 100;
+
+type Migration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+// Before v8 the engine kept its own incident log alongside the match feed
+type LegacyMatchEngineState = MatchEngineState & { incidents: MatchIncident[] };
+
+// Upcoming matches saved with a formatted kick-off time get a fresh one this far ahead
+const LEGACY_KICK_OFF_DELAY_MS = 10 * 60 * 1000;
+
+// Before v10 there was no added time: halves ended on 45 and 90 minutes played
+function withLegacyClock(engine: MatchEngineState): MatchEngineState {
+  const { tick, finished } = engine;
+  return {
+    ...engine,
+    period: engine.period ?? (finished || tick >= MATCH_DURATION ? 'full-time' : tick >= HALF_TIME ? 'second-half' : 'first-half'),
+    stoppageTime: engine.stoppageTime ?? {
+      ...NO_STOPPAGE_TIME,
+      firstHalf: tick >= HALF_TIME ? 0 : null,
+      secondHalf: finished ? 0 : null
+    }
+  };
+}
+
+const repriceMarkets = (engine: MatchEngineState): MatchEngineState =>
+  ({ ...engine, markets: priceEngineMarkets(withLegacyClock(engine)) });
+
+// Keyed by the version a save is migrated from; each step upgrades it by one version
+const MIGRATIONS: Record<number, Migration> = {
+  // v2: the wallet is backed by a ledger - carry the saved balance over as its opening entry
+  1: (state) => ({
+    ...state,
+    ledger: [createLedgerEntry('opening-balance', Number(state.wallet) || 0, 'Balance carried over')]
+  }),
+  // v3: the engine prices markets beyond the 1X2 - price them for a match saved mid-game
+  2: (state) => {
+    const engine = state.matchEngine as MatchEngineState | null;
+    if (!engine) return state;
+
+    return {
+      ...state,
+      matchEngine: repriceMarkets(engine)
+    };
+  },
+  // v4: the engine tracks the half-time score and prices correct score and HT/FT
+  3: (state) => {
+    const engine = state.matchEngine as LegacyMatchEngineState | null;
+    if (!engine) return state;
+
+    // Rebuild the half-time score from the goals recorded in the first half
+    const firstHalfGoals = engine.incidents.filter(incident => incident.type === 'goal' && incident.time <= HALF_TIME);
+    const migrated = {
+      ...engine,
+      halfTimeScore: engine.tick >= HALF_TIME ? {
+        homeScore: firstHalfGoals.filter(goal => goal.team === 'home').length,
+        awayScore: firstHalfGoals.filter(goal => goal.team === 'away').length
+      } : null
+    };
+    return {
+      ...state,
+      matchEngine: repriceMarkets(migrated)
+    };
+  },
+  // v5: settled bets record their result, and the engine prices BTTS, double chance and draw no bet
+  4: (state) => {
+    // Void bets are stored as not won, like lost ones; their refund in the ledger tells them apart
+    const refundedBetIds = new Set(
+      ((state.ledger as LedgerEntry[] | undefined) ?? [])
+        .filter(entry => entry.type === 'refund')
+        .map(entry => entry.betId)
+    );
+    const withResult = (bets: unknown) => (bets as Bet[] | undefined)?.map(bet =>
+      !bet.resolved || bet.cashedOut ? bet :
+      refundedBetIds.has(bet.id) ? { ...bet, result: 'void' } :
+      { ...bet, result: bet.won ? 'won' : 'lost' }
+    );
+
+    const engine = state.matchEngine as MatchEngineState | null;
+    return {
+      ...state,
+      activeBets: withResult(state.activeBets),
+      completedBets: withResult(state.completedBets),
+      matchEngine: engine && repriceMarkets(engine)
+    };
+  },
+  // v6: the engine prices Asian handicap and goal lines
+  5: (state) => {
+    const engine = state.matchEngine as MatchEngineState | null;
+    if (!engine) return state;
+
+    return {
+      ...state,
+      matchEngine: repriceMarkets(engine)
+    };
+  },
+  // v7: goals are credited to players and the engine prices goalscorer markets
+  6: (state) => {
+    const engine = state.matchEngine as MatchEngineState | null;
+    if (!engine) return state;
+
+    // Nobody was credited with the goals already scored
+    const migrated = { ...engine, goalscorers: Array(engine.homeScore + engine.awayScore).fill(null) };
+    return {
+      ...state,
+      matchEngine: repriceMarkets(migrated)
+    };
+  },
+  // v8: incidents are published to the match feed as typed events instead of kept by the engine
+  7: (state) => {
+    const engine = state.matchEngine as LegacyMatchEngineState | null;
+    if (!engine) return state;
+
+    // Goals are already in the feed as goal events
+    const { incidents, ...migrated } = engine;
+    const incidentEvents: ActionEvent[] = incidents
+      .filter(incident => incident.type !== 'goal')
+      .map((incident, index) => ({
+        id: `${engine.matchId}-incident-${index}`,
+        time: incident.time,
+        type: incident.type as ActionEvent['type'],
+        description: describeIncident(incident, engine),
+        team: incident.team,
+        ...(incident.half ? { half: incident.half } : {}),
+        ...(incident.playerId ? { playerId: incident.playerId } : {})
+      }));
+    const matchEvents = [...((state.matchEvents as ActionEvent[] | undefined) ?? []), ...incidentEvents]
+      .sort((a, b) => a.time - b.time);
+
+    return { ...state, matchEvents, matchEngine: { ...migrated, substitutedOff: [] } };
+  },
+  // v9: the engine plays out the ball's position - restart a match saved mid-game from the centre spot
+  8: (state) => {
+    const engine = state.matchEngine as MatchEngineState | null;
+    if (!engine) return state;
+
+    return {
+      ...state,
+      matchEngine: { ...engine, ball: KICK_OFF, ballPath: [KICK_OFF], pressure: { home: 0, away: 0 } }
+    };
+  },
+  // v10: the match clock has a half-time break and added time - carry on from where the old clock was
+  9: (state) => {
+    const engine = state.matchEngine as MatchEngineState | null;
+    if (!engine) return state;
+
+    return { ...state, matchEngine: repriceMarkets(withLegacyClock(engine)) };
+  },
+  // v11: knockout ties go to extra time and penalties - every match saved before then was a league game
+  10: (state) => {
+    const engine = state.matchEngine as MatchEngineState | null;
+    if (!engine) return state;
+
+    return {
+      ...state,
+      matchEngine: repriceMarkets({
+        ...engine,
+        knockout: false,
+        regularTimeScore: null,
+        shootout: null,
+        winner: null,
+        stoppageTime: { ...NO_STOPPAGE_TIME, ...engine.stoppageTime }
+      })
+    };
+  },
+  // v12: kick-off is a timestamp rather than a formatted time, which can't be read back reliably
+  11: (state) => ({
+    ...state,
+    lobbyMatches: ((state.lobbyMatches as Record<string, unknown>[] | undefined) ?? []).map(match =>
+      typeof match.startTime === 'number' ? match : {
+        ...match,
+        startTime: match.status === 'not-started' ? Date.now() + LEGACY_KICK_OFF_DELAY_MS : undefined
+      }
+    )
+  })
+};
+
+/**
+ * Bring a stored state up to the current schema version. Returns null for
+ * saves that can't be migrated (unknown or newer versions).
+ */
+export function migrateGameState(stored: StoredGameState): Record<string, unknown> | null {
+  let { version, state } = stored;
+
+  while (version < GAME_STATE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    state = migrate(state);
+    version += 1;
+  }
+
+  return version === GAME_STATE_SCHEMA_VERSION ? state : null;
+}
+
+/**
+ * Restore the saved game, falling back to the given state when there is no
+ * usable save. Fields missing from an old save take their default values.
+ */
+export function loadGameState(fallback: GameState): GameState {
+  try {
+    const raw = window.localStorage.getItem(GAME_STATE_STORAGE_KEY);
+    if (!raw) return fallback;
+
+    const stored = JSON.parse(raw) as StoredGameState;
+    const migrated = typeof stored?.version === 'number' && stored.state ? migrateGameState(stored) : null;
+    if (!migrated) return fallback;
+
+    const restored = {
+      ...fallback,
+      ...migrated,
+      settings: { ...fallback.settings, ...(migrated.settings as Partial<GameState['settings']>) }
+    } as GameState;
+
+    // A match can only be resumed if its engine state came back with it
+    if (restored.phase === 'match' && (!restored.currentMatch || !restored.matchEngine)) {
+      return { ...restored, phase: 'lobby', currentMatch: null, matchEngine: null, matchEvents: [] };
+    }
+
+    return restored;
+  } catch (error) {
+    // Corrupt save or storage unavailable (e.g. private browsing) - start fresh
+    return fallback;
+  }
+}
+
+/**
+ * What goes into a save. Open bets are all kept, settled ones only up to
+ * `settledBets` of the latest (a system bet counts with its lines), and a
+ * finished match's feed drops the commentary and settled betting offers its
+ * stats don't need.
+ */
+function toStoredState(state: GameState, settledBets: number): GameState {
+  const openIds = new Set(state.activeBets.filter(bet => !bet.resolved).map(bet => bet.id));
+  const settled = state.activeBets.filter(bet => bet.resolved && !bet.parentId);
+  const keptIds = new Set(settled.slice(Math.max(0, settled.length - settledBets)).map(bet => bet.id));
+
+  return {
+    ...state,
+    activeBets: state.activeBets.filter(bet =>
+      !bet.resolved || keptIds.has(bet.id) || (!!bet.parentId && (openIds.has(bet.parentId) || keptIds.has(bet.parentId)))
+    ),
+    completedBets: state.phase === 'match-summary' ? state.completedBets : undefined,
+    matchEvents: state.matchEngine?.finished
+      ? state.matchEvents.filter(event => event.type !== 'commentary' && !(event.type === 'action' && event.resolved))
+      : state.matchEvents
+  };
+}
+
+const writeSave = (state: GameState) => {
+  const stored: StoredGameState = {
+    version: GAME_STATE_SCHEMA_VERSION,
+    state: state as unknown as Record<string, unknown>
+  };
+  window.localStorage.setItem(GAME_STATE_STORAGE_KEY, JSON.stringify(stored));
+};
+
+export function saveGameState(state: GameState): void {
+  try {
+    writeSave(toStoredState(state, STORED_SETTLED_BETS));
+  } catch (error) {
+    try {
+      // Storage full - the settled bet history is the first thing to go
+      writeSave(toStoredState(state, 0));
+    } catch (retryError) {
+      // Still full, or storage unavailable - keep playing without saving
+    }
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Kick-off times. Matches carry kick-off as a timestamp and it is only
+ * formatted for display, in the user's own time zone.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+/**
+ * Local clock time of a kick-off, with the day when it isn't today.
+ */
+export function formatKickOffTime(startTime: number, now: number = Date.now()): string {
+  const kickOff = new Date(startTime);
+  return kickOff.toLocaleTimeString([], {
+    ...(isSameDay(kickOff, new Date(now)) ? {} : { weekday: 'short' }),
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+/**
+ * Time left until kick-off: "1h 05m" while more than an hour away, then
+ * minutes and seconds.
+ */
+export function formatCountdown(startTime: number, now: number = Date.now()): string {
+  const remaining = Math.max(0, startTime - now);
+  const hours = Math.floor(remaining / HOUR_MS);
+  const minutes = Math.floor((remaining % HOUR_MS) / MINUTE_MS);
+  const seconds = Math.floor((remaining % MINUTE_MS) / 1000);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return hours > 0 ? `${hours}h ${pad(minutes)}m` : `${pad(minutes)}:${pad(seconds)}`;
+}
@@ -0,0 +1,224 @@
+import { MatchData } from '../../App';
+import { createMatchEngine, getMatchResult, getMatchUpdate, simulateMatch } from './matchEngine';
+import { TEAMS, TEAM_RATINGS, TeamRating, getExpectedGoals, getOpeningOdds } from './teamRatings';
+
+/**
+ * League season: every club plays every other twice, home and away.
+ *
+ * The season keeps its own copy of the team ratings. After every result a
+ * club's attack and defence move towards how it actually played against the
+ * expected goals, so each matchday is priced from the ratings as they stand
+ * when it opens. Fixtures the user doesn't watch are simulated on the engine.
+ */
+
+export type FormResult = 'W' | 'D' | 'L';
+
+export interface LeagueSeason {
+  id: string;
+  teams: string[];
+  matchdays: MatchData[][]; // First half of the season, then the return fixtures in the same order
+  matchday: number; // Index of the matchday being played; matchdays.length once the season is over
+  ratings: Record<string, TeamRating>;
+}
+
+export interface LeagueTableRow {
+  team: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  points: number;
+  form: FormResult[]; // Latest results, oldest first
+}
+
+export const FORM_LENGTH = 5;
+
+const POINTS: Record<FormResult, number> = { W: 3, D: 1, L: 0 };
+
+// Share of the gap between goals and expected goals a club's ratings take on after each match
+const RATING_LEARNING_RATE = 0.02;
+const RATING_RANGE = { min: 0.6, max: 1.8 };
+
+/**
+ * Circle method: one club stays put while the rest rotate around it, giving
+ * every pairing exactly once in teams.length - 1 rounds. Home and away
+ * alternate so no club is on the road for weeks on end.
+ */
+function getRoundRobin(teams: string[]): [string, string][][] {
+  const [fixed, ...rotating] = teams;
+
+  return rotating.map((_, round) => {
+    const order = [fixed, ...rotating.slice(round), ...rotating.slice(0, round)];
+    return Array.from({ length: teams.length / 2 }, (_, index): [string, string] => {
+      const pair: [string, string] = [order[index], order[order.length - 1 - index]];
+      const swap = index === 0 ? round % 2 === 1 : index % 2 === 1;
+      return swap ? [pair[1], pair[0]] : pair;
+    });
+  });
+}
+
+const createFixture = (seasonId: string, matchday: number, index: number, homeTeam: string, awayTeam: string): MatchData => ({
+  id: `${seasonId}-${matchday}-${index}`,
+  homeTeam,
+  awayTeam,
+  ...getOpeningOdds(homeTeam, awayTeam),
+  homeScore: 0,
+  awayScore: 0,
+  status: 'not-started',
+  timeElapsed: 0,
+  playerCount: Math.floor(Math.random() * 150) + 25
+});
+
+// Price the fixtures of the matchday about to be played from the ratings as they stand
+function openMatchday(season: LeagueSeason): LeagueSeason {
+  return {
+    ...season,
+    matchdays: season.matchdays.map((fixtures, matchday) => matchday !== season.matchday ? fixtures : fixtures.map(fixture =>
+      fixture.status !== 'not-started' ? fixture : {
+        ...fixture,
+        ...getOpeningOdds(fixture.homeTeam, fixture.awayTeam, season.ratings),
+        expectedGoals: getExpectedGoals(fixture.homeTeam, fixture.awayTeam, season.ratings)
+      }
+    ))
+  };
+}
+
+export function createSeason(
+  teams: string[] = TEAMS,
+  ratings: Record<string, TeamRating> = TEAM_RATINGS,
+  random: () => number = Math.random
+): LeagueSeason {
+  const id = `season-${Date.now()}`;
+
+  // Fisher-Yates shuffle, so the fixture list differs from season to season
+  const drawn = [...teams];
+  for (let i = drawn.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [drawn[i], drawn[j]] = [drawn[j], drawn[i]];
+  }
+
+  const firstHalf = getRoundRobin(drawn);
+  const secondHalf = firstHalf.map(round => round.map(([home, away]): [string, string] => [away, home]));
+
+  return openMatchday({
+    id,
+    teams,
+    matchdays: [...firstHalf, ...secondHalf].map((round, matchday) =>
+      round.map(([home, away], index) => createFixture(id, matchday, index, home, away))
+    ),
+    matchday: 0,
+    ratings: { ...ratings }
+  });
+}
+
+export function getCurrentFixtures(season: LeagueSeason): MatchData[] {
+  return season.matchdays[season.matchday] ?? [];
+}
+
+export function isSeasonFinished(season: LeagueSeason): boolean {
+  return season.matchday >= season.matchdays.length;
+}
+
+export function isLeagueFixture(season: LeagueSeason | null, matchId: string): boolean {
+  return !!season && getCurrentFixtures(season).some(fixture => fixture.id === matchId);
+}
+
+const clampRating = (rating: number) => Math.min(RATING_RANGE.max, Math.max(RATING_RANGE.min, rating));
+
+/**
+ * Move both clubs' ratings towards the result: scoring more than expected
+ * lifts attack, conceding more than expected lowers defence.
+ */
+function updateRatings(ratings: Record<string, TeamRating>, match: MatchData): Record<string, TeamRating> {
+  const expected = match.expectedGoals ?? getExpectedGoals(match.homeTeam, match.awayTeam, ratings);
+  const surprise = (goals: number, expectedGoals: number) =>
+    RATING_LEARNING_RATE * (goals - expectedGoals) / Math.max(expectedGoals, 0.5);
+
+  const rate = (team: string, scored: number, expectedFor: number, conceded: number, expectedAgainst: number): TeamRating => ({
+    ...ratings[team],
+    attack: clampRating(ratings[team].attack * (1 + surprise(scored, expectedFor))),
+    defence: clampRating(ratings[team].defence * (1 - surprise(conceded, expectedAgainst)))
+  });
+
+  return {
+    ...ratings,
+    [match.homeTeam]: rate(match.homeTeam, match.homeScore, expected.home, match.awayScore, expected.away),
+    [match.awayTeam]: rate(match.awayTeam, match.awayScore, expected.away, match.homeScore, expected.home)
+  };
+}
+
+function applyResult(season: LeagueSeason, match: MatchData): LeagueSeason {
+  return {
+    ...season,
+    matchdays: season.matchdays.map((fixtures, matchday) => matchday !== season.matchday ? fixtures :
+      fixtures.map(fixture => fixture.id === match.id ? { ...fixture, ...match } : fixture)
+    ),
+    ratings: updateRatings(season.ratings, match)
+  };
+}
+
+// Once every fixture of the matchday is played, the next one opens
+function advanceMatchday(season: LeagueSeason): LeagueSeason {
+  if (getCurrentFixtures(season).some(fixture => fixture.status !== 'finished')) return season;
+  return openMatchday({ ...season, matchday: season.matchday + 1 });
+}
+
+/**
+ * Record the result of a fixture played elsewhere, e.g. the one the user watched.
+ */
+export function recordLeagueResult(season: LeagueSeason, match: MatchData): LeagueSeason {
+  if (!isLeagueFixture(season, match.id) || match.status !== 'finished') return season;
+  return advanceMatchday(applyResult(season, match));
+}
+
+/**
+ * Simulate the fixtures of the current matchday that haven't been played.
+ */
+export function playMatchday(season: LeagueSeason): LeagueSeason {
+  const played = getCurrentFixtures(season)
+    .filter(fixture => fixture.status === 'not-started')
+    .reduce((current, fixture) => {
+      const { state } = simulateMatch(createMatchEngine(fixture));
+      return applyResult(current, { ...fixture, ...getMatchUpdate(state) });
+    }, season);
+
+  return advanceMatchday(played);
+}
+
+/**
+ * Standings from every result so far: points, then goal difference, then
+ * goals scored.
+ */
+export function getLeagueTable(season: LeagueSeason): LeagueTableRow[] {
+  const rows = new Map<string, LeagueTableRow>(season.teams.map(team => [team, {
+    team, played: 0, won: 0, drawn: 0, lost: 0, goalsFor: 0, goalsAgainst: 0, points: 0, form: []
+  }]));
+
+  const record = (team: string, scored: number, conceded: number, result: FormResult) => {
+    const row = rows.get(team);
+    if (!row) return;
+    row.played += 1;
+    row.won += result === 'W' ? 1 : 0;
+    row.drawn += result === 'D' ? 1 : 0;
+    row.lost += result === 'L' ? 1 : 0;
+    row.goalsFor += scored;
+    row.goalsAgainst += conceded;
+    row.points += POINTS[result];
+    row.form = [...row.form, result].slice(-FORM_LENGTH);
+  };
+
+  season.matchdays.flat().filter(fixture => fixture.status === 'finished').forEach(fixture => {
+    const result = getMatchResult(fixture);
+    record(fixture.homeTeam, fixture.homeScore, fixture.awayScore, result === 'home' ? 'W' : result === 'draw' ? 'D' : 'L');
+    record(fixture.awayTeam, fixture.awayScore, fixture.homeScore, result === 'away' ? 'W' : result === 'draw' ? 'D' : 'L');
+  });
+
+  return [...rows.values()].sort((a, b) =>
+    b.points - a.points ||
+    (b.goalsFor - b.goalsAgainst) - (a.goalsFor - a.goalsAgainst) ||
+    b.goalsFor - a.goalsFor ||
+    a.team.localeCompare(b.team)
+  );
+}
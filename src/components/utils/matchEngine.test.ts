@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDynamicOdds, createMatchEngine, priceEngineMarkets, simulateMatch, stepMatch } from './matchEngine';
+
+const match = {
+  id: 'arsenal-chelsea',
+  homeTeam: 'Arsenal',
+  awayTeam: 'Chelsea',
+  homeOdds: 2.1,
+  drawOdds: 3.4,
+  awayOdds: 3.5
+};
+
+describe('match engine', () => {
+  it('plays out the same match for the same seed', () => {
+    const first = simulateMatch(createMatchEngine(match, 1234));
+    const second = simulateMatch(createMatchEngine(match, 1234));
+
+    expect(first.state.finished).toBe(true);
+    expect(second).toEqual(first);
+  });
+
+  it('plays out a different match for a different seed', () => {
+    const replays = [1, 2, 3, 4, 5].map(seed => simulateMatch(createMatchEngine(match, seed)).events);
+
+    expect(new Set(replays.map(events => JSON.stringify(events))).size).toBeGreaterThan(1);
+  });
+
+  it('replays a match from any tick it was paused at', () => {
+    const engine = createMatchEngine(match, 42);
+    const halfway = simulateMatch(engine, 45);
+
+    expect(halfway.state.tick).toBe(45);
+    expect(simulateMatch(halfway.state).state).toEqual(simulateMatch(engine).state);
+  });
+
+  it('leaves the state it steps from untouched', () => {
+    const engine = createMatchEngine(match, 7);
+    const snapshot = JSON.parse(JSON.stringify(engine));
+
+    stepMatch(engine);
+    expect(engine).toEqual(snapshot);
+  });
+
+  it('re-prices every tick', () => {
+    let state = createMatchEngine(match, 3);
+    while (!state.finished) {
+      state = stepMatch(state).state;
+      expect(state.odds).toEqual(calculateDynamicOdds(state));
+      expect(state.markets).toEqual(priceEngineMarkets(state));
+    }
+  });
+});
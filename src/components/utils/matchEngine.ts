@@ -0,0 +1,1027 @@
+import { ActionEvent, MatchData } from '../../App';
+import { getAvailableActionMarkets, getIntervalActionMarket, getPenaltyActionMarket } from './actionMarkets';
+import { ExpectedGoals, getExpectedGoals } from './teamRatings';
+import { getResultProbabilities, priceMarket } from './pricing';
+import { MatchMarkets, MatchScore, priceMatchMarkets, priceToQualify } from './matchMarkets';
+import { Player, PlayerId, SQUAD_SIZE, getPlayerName, getPlayerShares, getSquad } from './squads';
+import { BallPosition, KICK_OFF, Pressure, planBallPath, updatePressure } from './pitchPositions';
+import {
+  PENALTY_CONVERSION,
+  PENALTY_SAVED_SHARE,
+  Shootout,
+  getNextKicker,
+  getPenaltyTaker,
+  getShootoutTally,
+  getShootoutWinProbability,
+  getShootoutWinner
+} from './penaltyShootout';
+
+/**
+ * Deterministic match simulation.
+ *
+ * The engine is a pure state machine: `stepMatch` takes the current state and
+ * returns the next state plus the events produced during that tick. All
+ * randomness comes from a seeded PRNG whose state lives inside
+ * `MatchEngineState`, so the same seed always plays out the same match.
+ */
+
+export const MATCH_DURATION = 90;
+export const HALF_TIME = 45;
+export const EXTRA_TIME_DURATION = 30;
+
+/**
+ * Knockout ties level after 90 minutes break for extra time, play two halves
+ * of 15 minutes straight through, and go to penalties if still level.
+ */
+export type MatchPeriod =
+  | 'first-half'
+  | 'half-time'
+  | 'second-half'
+  | 'extra-time-break'
+  | 'extra-time-first-half'
+  | 'extra-time-second-half'
+  | 'penalties'
+  | 'full-time';
+
+// The halves in the order they are played, and the minute each one ends on
+const MATCH_HALVES = [
+  { key: 'firstHalf', endMinute: HALF_TIME },
+  { key: 'secondHalf', endMinute: MATCH_DURATION },
+  { key: 'extraTimeFirstHalf', endMinute: MATCH_DURATION + EXTRA_TIME_DURATION / 2 },
+  { key: 'extraTimeSecondHalf', endMinute: MATCH_DURATION + EXTRA_TIME_DURATION }
+] as const;
+
+type HalfKey = typeof MATCH_HALVES[number]['key'];
+
+// Added time the officials can allow at the end of each half, in minutes
+export const STOPPAGE_TIME_RANGE: Record<HalfKey, readonly [number, number]> = {
+  firstHalf: [1, 4],
+  secondHalf: [2, 6],
+  extraTimeFirstHalf: [1, 2],
+  extraTimeSecondHalf: [1, 3]
+};
+
+export type StoppageTime = Record<HalfKey, number | null>;
+
+export const NO_STOPPAGE_TIME: StoppageTime = { firstHalf: null, secondHalf: null, extraTimeFirstHalf: null, extraTimeSecondHalf: null };
+
+const averageOf = ([min, max]: readonly [number, number]) => (min + max) / 2;
+
+// Added time allowed for before it has been announced
+const EXPECTED_STOPPAGE_TIME = Object.fromEntries(
+  MATCH_HALVES.map(({ key }) => [key, averageOf(STOPPAGE_TIME_RANGE[key])])
+) as Record<HalfKey, number>;
+
+// Minutes a match lasts on average with added time; the teams' expected goals cover all of it
+export const EXPECTED_MATCH_LENGTH = MATCH_DURATION + EXPECTED_STOPPAGE_TIME.firstHalf + EXPECTED_STOPPAGE_TIME.secondHalf;
+
+export interface MatchClock {
+  half: number; // 1 and 2, then 3 and 4 for extra time
+  minute: number; // Stops at the end of the half while added time is played
+  addedMinute: number; // The 2 in 45+2'
+}
+
+export interface MatchOdds {
+  home: number;
+  draw: number;
+  away: number;
+}
+
+export const MATCH_INCIDENT_TYPES = [
+  'goal',
+  'penalty-scored', // Shoot-out kicks; they don't count towards the score
+  'penalty-missed',
+  'shot',
+  'shot-on-target',
+  'save',
+  'corner',
+  'throw-in',
+  'goal-kick',
+  'foul',
+  'free-kick',
+  'card',
+  'offside',
+  'substitution',
+  'watch-check',
+  'crowd-reaction'
+] as const;
+
+export type MatchIncidentType = typeof MATCH_INCIDENT_TYPES[number];
+
+// Goals have their own event type; every other incident is an event of its own type
+export type IncidentEventType = Exclude<MatchIncidentType, 'goal'>;
+
+/**
+ * Something that happened on the pitch. Each incident is published as a typed
+ * event in the match feed, and action markets and match stats are read back
+ * from those events - the feed is the ground truth.
+ */
+export interface MatchIncident {
+  time: number;
+  type: MatchIncidentType;
+  team: 'home' | 'away';
+  half?: 'home-half' | 'away-half';
+  // The scorer, shooter, keeper making the save, offender, player caught offside or player substituted
+  playerId?: PlayerId;
+  assistId?: PlayerId;
+}
+
+// Substitutions each side may make
+export const MAX_SUBSTITUTIONS = 5;
+
+// Per-tick probabilities; chained incidents (on target, goal, card) are conditional.
+// Shot rates are per team and come from the fixture's expected goals instead.
+export const INCIDENT_RATES = {
+  onTarget: 0.5,
+  conversion: 0.5,
+  cornerFromSave: 0.3,
+  foul: 0.04,
+  cardPerFoul: 0.35,
+  throwIn: 0.022,
+  corner: 0.02,
+  offside: 0.01,
+  substitution: 0.025,
+  watchCheck: 0.018,
+  crowdReaction: 0.02,
+  assisted: 0.75
+};
+
+export interface MatchEngineState {
+  matchId: string;
+  homeTeam: string;
+  awayTeam: string;
+  seed: number;
+  rng: number;
+  tick: number; // Minutes played, added time included; a kick at a time in a shoot-out
+  knockout: boolean; // Level after 90 minutes goes to extra time and penalties
+  period: MatchPeriod;
+  stoppageTime: StoppageTime; // Announced as each half reaches its last minute
+  homeScore: number;
+  awayScore: number;
+  halfTimeScore: { homeScore: number; awayScore: number } | null;
+  regularTimeScore: MatchScore | null; // The score after 90 minutes, kept once a tie goes to extra time
+  shootout: Shootout | null;
+  winner: 'home' | 'away' | null; // Knockout ties, once decided
+  goalscorers: (PlayerId | null)[]; // In scoring order
+  expectedGoals: ExpectedGoals;
+  openingOdds: MatchOdds;
+  odds: MatchOdds;
+  markets: MatchMarkets; // Everything beyond the 1X2, re-priced with it
+  lastGoal: { time: number; team: 'home' | 'away' } | null;
+  substitutedOff: PlayerId[];
+  ball: BallPosition;
+  ballPath: BallPosition[]; // The ball's path through the last tick, ending at `ball`
+  pressure: Pressure;
+  eventCount: number;
+  finished: boolean;
+}
+
+// The state markets are priced from; markets are only read back once a tie is past 90 minutes
+type MatchState = Omit<MatchEngineState, 'markets'> & { markets?: MatchMarkets };
+
+export interface MatchTickResult {
+  state: MatchEngineState;
+  events: ActionEvent[];
+}
+
+export interface Random {
+  next: () => number;
+  chance: (probability: number) => boolean;
+  pick: <T>(items: T[]) => T;
+  pickWeighted: <T>(items: { item: T; weight: number }[]) => T;
+  state: () => number;
+}
+
+// mulberry32 - small, fast and good enough for game simulation
+export function createRandom(seed: number): Random {
+  let current = seed >>> 0;
+
+  const next = () => {
+    current = (current + 0x6D2B79F5) >>> 0;
+    let t = current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    chance: (probability) => next() < probability,
+    pick: (items) => items[Math.floor(next() * items.length)],
+    pickWeighted: (items) => {
+      let remaining = next() * items.reduce((sum, { weight }) => sum + weight, 0);
+      return (items.find(({ weight }) => (remaining -= weight) < 0) ?? items[items.length - 1]).item;
+    },
+    state: () => current
+  };
+}
+
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+export function createMatchEngine(
+  match: Pick<MatchData, 'id' | 'homeTeam' | 'awayTeam' | 'homeOdds' | 'drawOdds' | 'awayOdds' | 'knockout' | 'expectedGoals'>,
+  seed: number = createSeed()
+): MatchEngineState {
+  const odds = { home: match.homeOdds, draw: match.drawOdds, away: match.awayOdds };
+  const expectedGoals = match.expectedGoals ?? getExpectedGoals(match.homeTeam, match.awayTeam);
+  const state: MatchState = {
+    matchId: match.id,
+    homeTeam: match.homeTeam,
+    awayTeam: match.awayTeam,
+    seed,
+    rng: seed,
+    tick: 0,
+    knockout: !!match.knockout,
+    period: 'first-half',
+    stoppageTime: NO_STOPPAGE_TIME,
+    homeScore: 0,
+    awayScore: 0,
+    halfTimeScore: null,
+    regularTimeScore: null,
+    shootout: null,
+    winner: null,
+    goalscorers: [],
+    expectedGoals,
+    openingOdds: odds,
+    odds,
+    lastGoal: null,
+    substitutedOff: [],
+    ball: KICK_OFF,
+    ballPath: [KICK_OFF],
+    pressure: { home: 0, away: 0 },
+    eventCount: 0,
+    finished: false
+  };
+
+  return { ...state, markets: priceEngineMarkets(state) };
+}
+
+/**
+ * The clock at a given tick. Minutes played past 45 in the first half are
+ * added time (45+1', 45+2') until the half ends; the second half picks up at
+ * 46' and runs into added time past 90 the same way, and so on through extra
+ * time.
+ */
+export function getMatchClock(tick: number, stoppageTime: StoppageTime): MatchClock {
+  let kickOff = 0; // Tick the half kicked off at
+  let startMinute = 0;
+  let index = 0;
+
+  // A half is over once its added time has been announced and played
+  for (; index < MATCH_HALVES.length - 1; index++) {
+    const { key, endMinute } = MATCH_HALVES[index];
+    const addedTime = stoppageTime[key];
+    if (addedTime === null || tick - kickOff <= endMinute - startMinute + addedTime) break;
+
+    kickOff += endMinute - startMinute + addedTime;
+    startMinute = endMinute;
+  }
+
+  const { endMinute } = MATCH_HALVES[index];
+  const minute = startMinute + tick - kickOff;
+  return { half: index + 1, minute: Math.min(minute, endMinute), addedMinute: Math.max(0, minute - endMinute) };
+}
+
+export function formatMatchClock({ minute, addedMinute }: MatchClock): string {
+  return addedMinute > 0 ? `${minute}+${addedMinute}'` : `${minute}'`;
+}
+
+// What the clock shows while play is stopped
+const BREAK_LABELS: Partial<Record<MatchPeriod, string>> = {
+  'half-time': 'HT',
+  'extra-time-break': 'FT',
+  'penalties': 'PENS',
+  'full-time': 'FT'
+};
+
+/**
+ * The clock as a live match shows it: the minute, or where play has stopped.
+ */
+export function formatLiveClock(state: Pick<MatchEngineState, 'tick' | 'period' | 'stoppageTime'>): string {
+  return BREAK_LABELS[state.period] ?? formatMatchClock(getMatchClock(state.tick, state.stoppageTime));
+}
+
+// Real time between ticks: a second a minute, with play stopped for the interval and more briefly before extra time
+export const TICK_MS = 1000;
+const BREAK_MS: Partial<Record<MatchPeriod, number>> = {
+  'half-time': 8000,
+  'extra-time-break': 5000
+};
+
+/**
+ * How long a match waits in the given period before its next tick.
+ */
+export function getTickDelay(period: MatchPeriod): number {
+  return BREAK_MS[period] ?? TICK_MS;
+}
+
+/**
+ * When something happened, as the feed shows it: the match minute, or "Pens"
+ * for a shoot-out kick.
+ */
+export function formatEventTime(tick: number, state: Pick<MatchEngineState, 'stoppageTime' | 'shootout'>): string {
+  const { stoppageTime, shootout } = state;
+  const shootoutStart = stoppageTime.extraTimeSecondHalf !== null
+    ? MATCH_DURATION + EXTRA_TIME_DURATION + Object.values(stoppageTime).reduce<number>((sum, added) => sum + (added ?? 0), 0)
+    : null;
+  return shootout && shootoutStart !== null && tick > shootoutStart
+    ? 'Pens'
+    : formatMatchClock(getMatchClock(tick, stoppageTime));
+}
+
+// Where each period falls in MATCH_HALVES; breaks count as the half that follows them
+const PERIOD_HALF_INDEX: Record<MatchPeriod, number> = {
+  'first-half': 0,
+  'half-time': 1,
+  'second-half': 1,
+  'extra-time-break': 2,
+  'extra-time-first-half': 2,
+  'extra-time-second-half': 3,
+  'penalties': MATCH_HALVES.length,
+  'full-time': MATCH_HALVES.length
+};
+
+/**
+ * Minutes still to play in the first half, in the 90 minutes and in extra
+ * time, counting added time as announced or, until it is, as expected.
+ */
+export function getRemainingMinutes(
+  state: Pick<MatchEngineState, 'tick' | 'period' | 'stoppageTime'>
+): { firstHalf: number; total: number; extraTime: number } {
+  const { tick, period, stoppageTime } = state;
+  const current = PERIOD_HALF_INDEX[period];
+  let kickOff = 0;
+  let startMinute = 0;
+
+  const remaining = MATCH_HALVES.map(({ key, endMinute }, index) => {
+    const length = endMinute - startMinute + (stoppageTime[key] ?? EXPECTED_STOPPAGE_TIME[key]);
+    const left = index < current ? 0 : index > current ? length : Math.max(0, length - (tick - kickOff));
+    kickOff += length;
+    startMinute = endMinute;
+    return left;
+  });
+
+  return { firstHalf: remaining[0], total: remaining[0] + remaining[1], extraTime: remaining[2] + remaining[3] };
+}
+
+/**
+ * Goals each side is still expected to score in the time remaining, with a
+ * boost for the side that has just scored.
+ */
+export function getRemainingExpectedGoals(state: MatchState): ExpectedGoals {
+  const { expectedGoals, lastGoal, tick: time } = state;
+  const timeWeight = getRemainingMinutes(state).total / EXPECTED_MATCH_LENGTH;
+
+  let homeRemaining = expectedGoals.home * timeWeight;
+  let awayRemaining = expectedGoals.away * timeWeight;
+
+  // Recent goal momentum (if last goal was within 5 minutes)
+  if (lastGoal && time - lastGoal.time <= 5) {
+    const momentumBoost = Math.max(0, (5 - (time - lastGoal.time)) / 5 * 0.15);
+    if (lastGoal.team === 'home') {
+      homeRemaining *= (1 + momentumBoost);
+    } else {
+      awayRemaining *= (1 + momentumBoost);
+    }
+  }
+
+  return { home: homeRemaining, away: awayRemaining };
+}
+
+/**
+ * In-play 1X2 prices: the remaining expected goals played on from the current
+ * score.
+ */
+export function calculateDynamicOdds(state: MatchEngineState): MatchOdds {
+  return priceMarket(getResultProbabilities(getRemainingExpectedGoals(state), state.homeScore - state.awayScore));
+}
+
+/**
+ * Chance the home side goes through a knockout tie: winning in 90 minutes, or
+ * level and then winning extra time or the shoot-out.
+ */
+function getQualifyProbability(state: MatchState): number {
+  const { expectedGoals, regularTimeScore, shootout } = state;
+  const extraTimeWeight = getRemainingMinutes(state).extraTime / EXPECTED_MATCH_LENGTH;
+  const difference = state.homeScore - state.awayScore;
+
+  const penalties = shootout ? getShootoutWinProbability(shootout) : 0.5;
+  const extraTime = getResultProbabilities(
+    { home: expectedGoals.home * extraTimeWeight, away: expectedGoals.away * extraTimeWeight },
+    regularTimeScore ? difference : 0
+  );
+  const regularTime = getResultProbabilities(getRemainingExpectedGoals(state), regularTimeScore ? 0 : difference);
+
+  return regularTime.home + regularTime.draw * (extraTime.home + extraTime.draw * penalties);
+}
+
+/**
+ * Every market beyond the 1X2, at the current score and time. They all cover
+ * the 90 minutes, so once a tie goes to extra time only To Qualify moves.
+ */
+export function priceEngineMarkets(state: MatchState): MatchMarkets {
+  const { firstHalf, total } = getRemainingMinutes(state);
+  const markets = state.regularTimeScore && state.markets
+    ? state.markets
+    : priceMatchMarkets(getRemainingExpectedGoals(state), state, total > 0 ? firstHalf / total : 0);
+
+  return { ...markets, toQualify: state.knockout && !state.winner ? priceToQualify(getQualifyProbability(state)) : [] };
+}
+
+function getCommentaryPool(state: MatchEngineState, time: number): string[] {
+  const { homeTeam, awayTeam } = state;
+  const homeSquad = getSquad(homeTeam);
+  const awaySquad = getSquad(awayTeam);
+  const inPosition = (squad: Player[], position: Player['position']) =>
+    squad.filter(player => player.position === position).map(player => player.name);
+  const [homeKeeper] = inPosition(homeSquad, 'GK');
+  const [awayKeeper] = inPosition(awaySquad, 'GK');
+  const [homePlaymaker] = inPosition(homeSquad, 'MID').slice(-1);
+  const [awayStriker] = inPosition(awaySquad, 'FWD').slice(1);
+  const [homeStriker] = inPosition(homeSquad, 'FWD').slice(1);
+
+  if (time < 15) {
+    return [
+      `⚡ Fast-paced start to this match!`,
+      `🏃‍♂️ ${homeTeam} pressing high early on!`,
+      `🔥 ${awayTeam} looking to settle into their rhythm.`,
+      `👏 Great energy from both sides in these opening minutes!`,
+      `⚽ Early chances being created here!`,
+      `🎯 Both teams testing each other out.`,
+      `🚀 The tempo is electric from the start!`
+    ];
+  }
+
+  if (time > 75) {
+    return [
+      `⏰ Time is running out!`,
+      `🔥 The tension is palpable!`,
+      `💥 Every second counts now!`,
+      `🚨 Desperate defending here!`,
+      `⚡ Final push from both teams!`,
+      `🎯 This could be decisive!`,
+      `💪 Last-ditch effort!`,
+      `🙏 Nerves of steel required!`,
+      `⏳ The clock is ticking!`,
+      `🔥 All or nothing now!`,
+      `🎭 Drama in the final minutes!`,
+      `💥 What a crucial moment!`
+    ];
+  }
+
+  return [
+    `💪 Great play by ${homeTeam}!`,
+    `⚡ ${awayTeam} looking dangerous on the counter-attack!`,
+    `🙌 The crowd is on their feet!`,
+    `🥅 What a save by the goalkeeper!`,
+    `🧤 ${homeKeeper} claims the cross with authority.`,
+    `🧤 Big stop from ${awayKeeper}!`,
+    `🎩 ${homePlaymaker} is pulling the strings for ${homeTeam}.`,
+    `🎯 ${homeStriker} goes close for ${homeTeam}!`,
+    `⚡ ${awayStriker} is causing all sorts of problems for the ${homeTeam} defence!`,
+    `👨‍⚖️ Close call from the referee there.`,
+    `🔥 Both teams giving their all in this intense match!`,
+    `🏃‍♂️ End-to-end action here!`,
+    `⚽ Brilliant ball control on display!`,
+    `🎯 The pressure is building!`,
+    `💥 What a tackle!`,
+    `🚀 Quick passing move there!`,
+    `👏 The quality of play is impressive!`,
+    `⚡ Lightning-fast counter attack!`,
+    `🔥 The intensity is rising!`,
+    `🎭 Skillful play from both sides!`
+  ];
+}
+
+function otherTeam(team: 'home' | 'away'): 'home' | 'away' {
+  return team === 'home' ? 'away' : 'home';
+}
+
+// Chance per tick that a team takes a shot, so that it scores its expected goals on average
+export function getShotRate(expectedGoals: number): number {
+  return expectedGoals / (EXPECTED_MATCH_LENGTH * INCIDENT_RATES.onTarget * INCIDENT_RATES.conversion);
+}
+
+type Squads = Record<'home' | 'away', Player[]>;
+
+// Pick a player weighted by how often their position scores, assists or is booked
+function pickPlayer(random: Random, squad: Player[], kind: 'goal' | 'assist' | 'card', exclude?: PlayerId): PlayerId {
+  const candidates = getPlayerShares(squad.filter(player => player.id !== exclude), kind);
+  return random.pickWeighted(candidates.map(({ player, share }) => ({ item: player.id, weight: share })));
+}
+
+function simulateIncidents(
+  random: Random,
+  time: number,
+  expectedGoals: ExpectedGoals,
+  squads: Squads,
+  substitutions: boolean
+): MatchIncident[] {
+  const incidents: MatchIncident[] = [];
+  const add = (type: MatchIncidentType, team: 'home' | 'away', extra?: Partial<MatchIncident>) => {
+    incidents.push({ time, type, team, ...extra });
+  };
+  const pickTeam = () => (random.chance(0.5) ? 'home' : 'away');
+  const keeper = (team: 'home' | 'away') => squads[team].find(player => player.position === 'GK')?.id;
+
+  // Attacking play: shot -> on target -> goal or save, off target -> goal kick
+  (['home', 'away'] as const).forEach(attacking => {
+    if (!random.chance(getShotRate(expectedGoals[attacking]))) return;
+
+    // Whoever takes the shot scores it if it goes in
+    const playerId = pickPlayer(random, squads[attacking], 'goal');
+    add('shot', attacking, { playerId });
+
+    if (random.chance(INCIDENT_RATES.onTarget)) {
+      add('shot-on-target', attacking, { playerId });
+
+      if (random.chance(INCIDENT_RATES.conversion)) {
+        const assistId = random.chance(INCIDENT_RATES.assisted)
+          ? pickPlayer(random, squads[attacking], 'assist', playerId)
+          : undefined;
+        add('goal', attacking, { playerId, ...(assistId ? { assistId } : {}) });
+        add('crowd-reaction', attacking);
+      } else {
+        const defending = otherTeam(attacking);
+        const keeperId = keeper(defending);
+        add('save', defending, keeperId ? { playerId: keeperId } : {});
+        if (random.chance(INCIDENT_RATES.cornerFromSave)) {
+          add('corner', attacking);
+        }
+      }
+    } else {
+      add('goal-kick', otherTeam(attacking));
+    }
+  });
+
+  // Fouls always give a free kick, some are worth a card for the offender
+  if (random.chance(INCIDENT_RATES.foul)) {
+    const offender = pickTeam();
+    const playerId = pickPlayer(random, squads[offender], 'card');
+    add('foul', offender, { half: random.chance(0.5) ? 'home-half' : 'away-half', playerId });
+    add('free-kick', otherTeam(offender));
+    if (random.chance(INCIDENT_RATES.cardPerFoul)) {
+      add('card', offender, { playerId });
+    }
+  }
+
+  if (random.chance(INCIDENT_RATES.throwIn)) add('throw-in', pickTeam());
+  if (random.chance(INCIDENT_RATES.corner)) add('corner', pickTeam());
+  if (random.chance(INCIDENT_RATES.offside)) {
+    const team = pickTeam();
+    add('offside', team, { playerId: pickPlayer(random, squads[team], 'goal') });
+  }
+  if (substitutions && random.chance(INCIDENT_RATES.substitution)) {
+    const team = pickTeam();
+    // Keepers stay on, and squads only shrink as far as the substitution limit
+    const outfield = squads[team].filter(player => player.position !== 'GK');
+    if (squads[team].length > SQUAD_SIZE - MAX_SUBSTITUTIONS) {
+      add('substitution', team, { playerId: random.pick(outfield).id });
+    }
+  }
+  if (random.chance(INCIDENT_RATES.watchCheck)) add('watch-check', pickTeam());
+  if (random.chance(INCIDENT_RATES.crowdReaction)) add('crowd-reaction', pickTeam());
+
+  return incidents;
+}
+
+/**
+ * Feed line for an incident. Goals are described by the goal event itself.
+ */
+export function describeIncident(incident: MatchIncident, teams: { homeTeam: string; awayTeam: string }): string {
+  const team = incident.team === 'home' ? teams.homeTeam : teams.awayTeam;
+  const player = getPlayerName(incident.playerId);
+
+  switch (incident.type) {
+    case 'goal':
+      return `GOAL! ${player} scores for ${team}!`;
+    case 'penalty-scored':
+      return `⚽ ${player} scores from the spot for ${team}!`;
+    case 'penalty-missed':
+      return `❌ ${player} fails to score from the spot for ${team}!`;
+    case 'shot':
+      return `💨 ${player} shoots for ${team}.`;
+    case 'shot-on-target':
+      return `🎯 ${player}'s effort is on target!`;
+    case 'save':
+      return `🧤 Saved by ${player}!`;
+    case 'corner':
+      return `🚩 Corner to ${team}.`;
+    case 'throw-in':
+      return `↔️ Throw-in to ${team}.`;
+    case 'goal-kick':
+      return `🥅 Goal kick for ${team}.`;
+    case 'foul':
+      return `⚠️ Foul by ${player} (${team}) in the ${incident.half === 'away-half' ? 'away' : 'home'} half.`;
+    case 'free-kick':
+      return `🦶 Free kick to ${team}.`;
+    case 'card':
+      return `🟨 Yellow card for ${player} (${team}).`;
+    case 'offside':
+      return `🚫 ${player} is flagged offside for ${team}.`;
+    case 'substitution':
+      return `🔄 ${team} substitution: ${player} makes way.`;
+    case 'watch-check':
+      return `⌚ The referee checks the watch.`;
+    case 'crowd-reaction':
+      return `📣 The ${team} fans are making themselves heard!`;
+  }
+}
+
+function isMatchIncidentType(type: ActionEvent['type']): type is MatchIncidentType {
+  return (MATCH_INCIDENT_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Read the incidents back out of a match feed, in the order they happened.
+ */
+export function getMatchIncidents(events: ActionEvent[]): MatchIncident[] {
+  return events.flatMap(({ time, type, team, scoringTeam, half, playerId, assistId }) => {
+    const side = team ?? scoringTeam;
+    if (!isMatchIncidentType(type) || !side) return [];
+
+    return [{
+      time,
+      type,
+      team: side,
+      ...(half ? { half } : {}),
+      ...(playerId ? { playerId } : {}),
+      ...(assistId ? { assistId } : {})
+    }];
+  });
+}
+
+/**
+ * Take the next kick of a shoot-out. A missed kick is either saved or off
+ * target.
+ */
+function takePenalty(state: MatchEngineState, random: Random, time: number, squads: Squads): MatchIncident[] {
+  const shootout = state.shootout!;
+  const team = getNextKicker(shootout);
+  const taker = getPenaltyTaker(squads[team], getShootoutTally(shootout.kicks).taken[team]);
+  const scored = random.chance(PENALTY_CONVERSION);
+  state.shootout = { ...shootout, kicks: [...shootout.kicks, { team, playerId: taker.id, scored }] };
+
+  const kick: MatchIncident = { time, type: scored ? 'penalty-scored' : 'penalty-missed', team, playerId: taker.id };
+  if (scored || !random.chance(PENALTY_SAVED_SHARE)) return [kick];
+
+  const defending = otherTeam(team);
+  const keeperId = squads[defending].find(player => player.position === 'GK')?.id;
+  return [kick, { time, type: 'save', team: defending, ...(keeperId ? { playerId: keeperId } : {}) }];
+}
+
+/**
+ * Advance the match by one tick (one minute of play, or one kick of a
+ * shoot-out). Stepping out of a break kicks off the next half.
+ */
+export function stepMatch(previous: MatchEngineState): MatchTickResult {
+  if (previous.finished) {
+    return { state: previous, events: [] };
+  }
+
+  const random = createRandom(previous.rng);
+  const time = previous.tick + 1;
+  const state: MatchEngineState = { ...previous, tick: time };
+  const events: ActionEvent[] = [];
+
+  const createEvent = (event: Omit<ActionEvent, 'id'>): ActionEvent => {
+    state.eventCount += 1;
+    return { id: `${state.matchId}-${state.eventCount}`, ...event };
+  };
+
+  const teamName = (team: 'home' | 'away') => (team === 'home' ? state.homeTeam : state.awayTeam);
+  const scoreLine = () => `${state.homeTeam} ${state.homeScore}-${state.awayScore} ${state.awayTeam}`;
+
+  // The players still on the pitch
+  const onPitch = (team: string) => getSquad(team).filter(player => !state.substitutedOff.includes(player.id));
+  const squads: Squads = { home: onPitch(state.homeTeam), away: onPitch(state.awayTeam) };
+
+  const finish = (description: string) => {
+    state.period = 'full-time';
+    state.finished = true;
+    if (state.knockout) {
+      const tally = state.shootout && getShootoutTally(state.shootout.kicks);
+      state.winner = tally
+        ? (tally.scored.home > tally.scored.away ? 'home' : 'away')
+        : getMatchResult(state) === 'away' ? 'away' : 'home';
+    }
+    events.push(createEvent({ time, type: 'commentary', description }));
+  };
+
+  // Each kick of a shoot-out has its own quick-fire market on whoever steps up next
+  const offerPenalty = () => {
+    const shootout = state.shootout!;
+    const team = getNextKicker(shootout);
+    const taker = getPenaltyTaker(squads[team], getShootoutTally(shootout.kicks).taken[team]);
+    const market = getPenaltyActionMarket({ taker: taker.name, team: teamName(team) });
+    events.push(createEvent({
+      time,
+      type: 'action',
+      description: market.description,
+      bettingOptions: market.options,
+      marketId: market.id,
+      team,
+      playerId: taker.id
+    }));
+  };
+
+  if (previous.period === 'penalties') {
+    const incidents = takePenalty(state, random, time, squads);
+    incidents.forEach(incident => {
+      events.push(createEvent({
+        time,
+        type: incident.type as IncidentEventType,
+        description: describeIncident(incident, state),
+        team: incident.team,
+        ...(incident.playerId ? { playerId: incident.playerId } : {})
+      }));
+    });
+
+    const ballRandom = createRandom((state.seed ^ Math.imul(time, 0x9E3779B1)) >>> 0);
+    state.pressure = updatePressure(state.pressure, incidents);
+    state.ballPath = planBallPath(state.ball, incidents, state.pressure, ballRandom.next);
+    state.ball = state.ballPath[state.ballPath.length - 1];
+
+    const winner = getShootoutWinner(state.shootout!);
+    if (winner) {
+      const { scored } = getShootoutTally(state.shootout!.kicks);
+      finish(`🏆 ${teamName(winner)} win ${Math.max(scored.home, scored.away)}-${Math.min(scored.home, scored.away)} on penalties!`);
+    } else {
+      offerPenalty();
+    }
+
+    state.markets = priceEngineMarkets(state);
+    state.rng = random.state();
+    return { state, events };
+  }
+
+  // The away side kicks off the second half of each period
+  if (previous.period === 'half-time') {
+    state.period = 'second-half';
+    state.ball = { ...KICK_OFF, team: 'away' };
+    events.push(createEvent({
+      time,
+      type: 'commentary',
+      description: `⚽ The second half is underway! ${state.awayTeam} get us going again.`
+    }));
+  } else if (previous.period === 'extra-time-break') {
+    state.period = 'extra-time-first-half';
+    state.ball = KICK_OFF;
+    events.push(createEvent({
+      time,
+      type: 'commentary',
+      description: `⚽ Extra time is underway! ${state.homeTeam} vs ${state.awayTeam} - 30 more minutes to settle it.`
+    }));
+  }
+
+  const clock = getMatchClock(time, state.stoppageTime);
+
+  // Kick-off and early excitement
+  if (time === 1) {
+    events.push(createEvent({
+      time: 0,
+      type: 'commentary',
+      description: `⚽ The match is underway! ${state.homeTeam} vs ${state.awayTeam} kicks off!`
+    }));
+  } else if (time === 3) {
+    events.push(createEvent({
+      time,
+      type: 'commentary',
+      description: `🏃‍♂️ Both teams look sharp in these opening exchanges!`
+    }));
+  } else if (time === 8) {
+    events.push(createEvent({
+      time,
+      type: 'commentary',
+      description: `⚡ The pace is picking up - this promises to be an exciting match!`
+    }));
+  }
+
+  // What actually happens on the pitch this tick
+  const incidents = simulateIncidents(random, time, state.expectedGoals, squads, state.period !== 'first-half');
+  const goals = incidents.filter(incident => incident.type === 'goal');
+
+  incidents.forEach(incident => {
+    if (incident.type === 'goal') return;
+    if (incident.type === 'substitution' && incident.playerId) {
+      state.substitutedOff = [...state.substitutedOff, incident.playerId];
+    }
+
+    events.push(createEvent({
+      time,
+      type: incident.type as IncidentEventType,
+      description: describeIncident(incident, state),
+      team: incident.team,
+      ...(incident.half ? { half: incident.half } : {}),
+      ...(incident.playerId ? { playerId: incident.playerId } : {})
+    }));
+  });
+
+  goals.forEach(({ team: scoringTeam, playerId, assistId }) => {
+    if (scoringTeam === 'home') {
+      state.homeScore += 1;
+    } else {
+      state.awayScore += 1;
+    }
+    state.lastGoal = { time, team: scoringTeam };
+    state.goalscorers = [...state.goalscorers, playerId ?? null];
+
+    const team = teamName(scoringTeam);
+    const scorer = squads[scoringTeam].find(player => player.id === playerId);
+    const assister = squads[scoringTeam].find(player => player.id === assistId);
+
+    events.push(createEvent({
+      time,
+      type: 'goal',
+      description: scorer
+        ? `GOAL! ${scorer.name} scores for ${team}!${assister ? ` Assisted by ${assister.name}.` : ''}`
+        : `GOAL! ${team} scores!`,
+      scoringTeam,
+      ...(playerId ? { playerId } : {}),
+      ...(assistId ? { assistId } : {})
+    }));
+  });
+
+  // The ball follows the incidents. It draws from its own generator so that
+  // animating the pitch doesn't change how a seed plays out.
+  const ballRandom = createRandom((state.seed ^ Math.imul(time, 0x9E3779B1)) >>> 0);
+  state.pressure = updatePressure(state.pressure, incidents);
+  state.ballPath = planBallPath(state.ball, incidents, state.pressure, ballRandom.next);
+  state.ball = state.ballPath[state.ballPath.length - 1];
+
+  // Added time is announced as a half reaches its last minute, and the half ends once it has been played
+  const half = MATCH_HALVES[clock.half - 1];
+  if (clock.addedMinute === 0 && clock.minute === half.endMinute) {
+    const [min, max] = STOPPAGE_TIME_RANGE[half.key];
+    const addedTime = min + Math.floor(random.next() * (max - min + 1));
+    state.stoppageTime = { ...state.stoppageTime, [half.key]: addedTime };
+    events.push(createEvent({
+      time,
+      type: 'commentary',
+      description: `⏱️ The fourth official signals ${addedTime} minute${addedTime === 1 ? '' : 's'} of added time.`
+    }));
+  }
+  const addedTime = state.stoppageTime[half.key];
+  const periodOver = addedTime !== null && clock.addedMinute >= addedTime;
+
+  // Random betting opportunities and commentary, more frequent at the start and the end
+  const eventChance = clock.minute < 15 ? 0.13 :
+                      clock.minute > 75 ? 0.1 :
+                      0.07;
+
+  if (goals.length === 0 && !periodOver && random.chance(eventChance)) {
+    // Weight the event types for more excitement - more commentary than action betting
+    const eventType = random.pick<ActionEvent['type']>(['action', 'action', 'commentary', 'commentary', 'commentary']);
+
+    if (eventType === 'action' && clock.minute < MATCH_DURATION) {
+      const market = random.pick(getAvailableActionMarkets({
+        time: clock.minute,
+        homeTeam: state.homeTeam,
+        awayTeam: state.awayTeam,
+        homeScore: state.homeScore,
+        awayScore: state.awayScore,
+        expectedGoals: state.expectedGoals
+      }));
+
+      events.push(createEvent({
+        time,
+        type: 'action',
+        description: market.description,
+        bettingOptions: market.options,
+        marketId: market.id
+      }));
+    } else if (eventType === 'commentary') {
+      events.push(createEvent({
+        time,
+        type: 'commentary',
+        description: random.pick(getCommentaryPool(state, clock.minute))
+      }));
+    }
+  }
+
+  const level = state.homeScore === state.awayScore;
+
+  if (periodOver) {
+    switch (state.period) {
+      case 'first-half': {
+        state.period = 'half-time';
+        state.halfTimeScore = { homeScore: state.homeScore, awayScore: state.awayScore };
+        events.push(createEvent({ time, type: 'commentary', description: `⏸️ Half-time: ${scoreLine()}.` }));
+
+        // The interval has its own betting window while play is stopped
+        const market = getIntervalActionMarket({ expectedGoals: state.expectedGoals });
+        events.push(createEvent({
+          time,
+          type: 'action',
+          description: market.description,
+          bettingOptions: market.options,
+          marketId: market.id
+        }));
+        break;
+      }
+      case 'second-half':
+        if (state.knockout && level) {
+          state.period = 'extra-time-break';
+          state.regularTimeScore = {
+            homeScore: state.homeScore,
+            awayScore: state.awayScore,
+            halfTimeScore: state.halfTimeScore,
+            goalscorers: state.goalscorers
+          };
+          events.push(createEvent({
+            time,
+            type: 'commentary',
+            description: `⏱️ 90 minutes up: ${scoreLine()}. Nothing to separate them - we're going to extra time!`
+          }));
+        } else {
+          finish(`🏁 Full-time: ${scoreLine()}.`);
+        }
+        break;
+      case 'extra-time-first-half':
+        // No break - the teams change ends and go again
+        state.period = 'extra-time-second-half';
+        state.ball = { ...KICK_OFF, team: 'away' };
+        events.push(createEvent({
+          time,
+          type: 'commentary',
+          description: `🔄 End of the first period of extra time: ${scoreLine()}. The teams change ends.`
+        }));
+        break;
+      case 'extra-time-second-half':
+        if (level) {
+          const firstKicker = random.chance(0.5) ? 'home' : 'away';
+          state.period = 'penalties';
+          state.shootout = { firstKicker, kicks: [] };
+          events.push(createEvent({
+            time,
+            type: 'commentary',
+            description: `🎯 Still level after extra time - it's going to penalties! ${teamName(firstKicker)} win the toss and will go first.`
+          }));
+          offerPenalty();
+        } else {
+          finish(`🏁 Full-time after extra time: ${scoreLine()}. ${teamName(getMatchResult(state) as 'home' | 'away')} go through!`);
+        }
+        break;
+    }
+  }
+
+  // Re-price every tick: the clock running down moves every market, so a price left
+  // standing could be backed after the odds have moved
+  state.odds = state.regularTimeScore ? state.odds : calculateDynamicOdds(state);
+  state.markets = priceEngineMarkets(state);
+
+  state.rng = random.state();
+  return { state, events };
+}
+
+/**
+ * Run the simulation forward until the given tick (or full time). Useful for
+ * replays and for reproducing a reported match from its seed.
+ */
+export function simulateMatch(initial: MatchEngineState, untilTick: number = Infinity): MatchTickResult {
+  let state = initial;
+  const events: ActionEvent[] = [];
+
+  while (!state.finished && state.tick < untilTick) {
+    const result = stepMatch(state);
+    state = result.state;
+    events.push(...result.events);
+  }
+
+  return { state, events };
+}
+
+/**
+ * What a match's listing shows of the engine: the score, the live 1X2 prices
+ * and the clock, and for knockout ties how they were decided.
+ */
+export function getMatchUpdate(state: MatchEngineState): Pick<
+  MatchData,
+  'homeScore' | 'awayScore' | 'halfTimeScore' | 'goalscorers' | 'homeOdds' | 'drawOdds' | 'awayOdds' |
+  'regularTimeScore' | 'penaltyScore' | 'winner' | 'timeElapsed' | 'status'
+> {
+  const penalties = state.shootout && getShootoutTally(state.shootout.kicks).scored;
+
+  return {
+    homeScore: state.homeScore,
+    awayScore: state.awayScore,
+    halfTimeScore: state.halfTimeScore,
+    goalscorers: state.goalscorers,
+    homeOdds: state.odds.home,
+    drawOdds: state.odds.draw,
+    awayOdds: state.odds.away,
+    regularTimeScore: state.regularTimeScore,
+    penaltyScore: penalties && { homeScore: penalties.home, awayScore: penalties.away },
+    winner: state.winner,
+    timeElapsed: getMatchClock(state.tick, state.stoppageTime).minute,
+    status: state.finished ? 'finished' : 'live'
+  };
+}
+
+export function getMatchResult(state: Pick<MatchEngineState, 'homeScore' | 'awayScore'>): 'home' | 'draw' | 'away' {
+  if (state.homeScore > state.awayScore) return 'home';
+  if (state.awayScore > state.homeScore) return 'away';
+  return 'draw';
+}
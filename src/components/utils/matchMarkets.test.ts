@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_ODDS } from './pricing';
+import { getSelectionPrice, priceMatchMarkets } from './matchMarkets';
+
+const score = (homeScore: number, awayScore: number) => ({ homeTeam: 'Arsenal', awayTeam: 'Chelsea', homeScore, awayScore });
+
+describe('priceMatchMarkets', () => {
+  it('offers every correct score while the grid is still reachable', () => {
+    const { correctScore } = priceMatchMarkets({ home: 1.2, away: 1 }, score(0, 0), 0.5);
+
+    expect(correctScore.map(({ outcome }) => outcome)).toContain('other');
+    expect(correctScore.every(({ odds }) => odds > MIN_ODDS)).toBe(true);
+  });
+
+  it('takes correct score off the board once the score is past the grid', () => {
+    const markets = priceMatchMarkets({ home: 0.5, away: 0.4 }, score(5, 0), 0);
+    const match = { homeOdds: 1.01, drawOdds: 100, awayOdds: 100, regularTimeScore: null, status: 'live' as const };
+
+    expect(markets.correctScore).toEqual([]);
+    expect(getSelectionPrice({ marketId: 'correct-score', outcome: 'other' }, match, markets)).toBeNull();
+  });
+
+  it('takes no bets after full time', () => {
+    const markets = priceMatchMarkets({ home: 0.1, away: 0.1 }, score(1, 0), 0);
+    const match = { homeOdds: 1.05, drawOdds: 12, awayOdds: 40, regularTimeScore: null };
+
+    expect(getSelectionPrice({ marketId: 'double-chance', outcome: 'X2' }, { ...match, status: 'live' }, markets)).not.toBeNull();
+    expect(getSelectionPrice({ marketId: 'double-chance', outcome: 'X2' }, { ...match, status: 'finished' }, markets)).toBeNull();
+  });
+
+  it('never prices an outcome that is certain', () => {
+    // Nothing left to play: the current result is certain
+    const markets = priceMatchMarkets({ home: 0, away: 0 }, score(1, 0), 0);
+
+    expect(markets.bothTeamsToScore).toEqual([]);
+    expect(markets.doubleChance).toEqual([]);
+    expect(markets.drawNoBet).toEqual([]);
+    expect(markets.correctScore).toEqual([]);
+  });
+});
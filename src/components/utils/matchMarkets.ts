@@ -0,0 +1,528 @@
+import { Bet, MatchData } from '../../App';
+import { ExpectedGoals } from './teamRatings';
+import {
+  getResultProbabilities,
+  getScoreProbabilities,
+  getTotalGoalsProbabilities,
+  isDecided,
+  priceMarket,
+  probabilityToOdds
+} from './pricing';
+import { BetResult } from './betSettlement';
+import {
+  AsianGoalLinePrice,
+  AsianHandicapPrice,
+  formatHandicap,
+  priceAsianGoalLines,
+  priceAsianHandicap,
+  settleAsianLine
+} from './asianLines';
+import { PlayerId, getPlayerName, getPlayerShares, getSquad } from './squads';
+
+/**
+ * Full-match markets beyond the 1X2.
+ *
+ * A selection is identified by its market, its outcome and - for markets that
+ * come in several lines, like total goals - the line. Bets, betslip selections
+ * and accumulator legs all carry the same three fields, so every market is
+ * priced and settled through this module. A missing `marketId` means the 1X2
+ * match result, which is what older saves and lobby bets hold.
+ *
+ * Every market covers the 90 minutes plus added time. In a knockout tie that
+ * goes to extra time they settle on the score after 90 minutes, and only To
+ * Qualify takes extra time and penalties into account.
+ */
+
+export type MarketId =
+  | 'match-result'
+  | 'over-under'
+  | 'correct-score'
+  | 'half-time-full-time'
+  | 'both-teams-to-score'
+  | 'double-chance'
+  | 'draw-no-bet'
+  | 'asian-handicap' // Backed on 'home' or 'away'; the line is the home handicap
+  | 'asian-goal-line' // Backed on 'over' or 'under'
+  | 'first-goalscorer'
+  | 'next-goalscorer' // The line is which goal of the match, e.g. 2 for the second
+  | 'anytime-goalscorer'
+  | 'to-qualify'; // Knockout ties only
+
+type ResultOutcome = 'home' | 'draw' | 'away';
+
+// '2-1', or 'other' for any score outside the grid
+export type CorrectScoreOutcome = `${number}-${number}` | 'other';
+
+// Half-time result / full-time result, e.g. 'draw/home'
+export type HalfTimeFullTimeOutcome = `${ResultOutcome}/${ResultOutcome}`;
+
+export type BothTeamsToScoreOutcome = 'yes' | 'no';
+
+// Two of the three 1X2 results: home or draw, draw or away, either side
+export type DoubleChanceOutcome = '1X' | 'X2' | '12';
+
+// Draw No Bet is backed on a side; the stake comes back on a draw
+export type DrawNoBetOutcome = 'home' | 'away';
+
+// The side that goes through a knockout tie
+export type QualifyOutcome = 'home' | 'away';
+
+// A player, or 'none' for no (further) goals
+export type GoalscorerOutcome = PlayerId | 'none';
+
+export type MarketOutcome =
+  | ResultOutcome
+  | 'over'
+  | 'under'
+  | CorrectScoreOutcome
+  | HalfTimeFullTimeOutcome
+  | BothTeamsToScoreOutcome
+  | DoubleChanceOutcome
+  | GoalscorerOutcome;
+
+export interface MarketSelection {
+  marketId?: MarketId;
+  outcome: MarketOutcome;
+  line?: number;
+}
+
+export interface MatchScore {
+  homeScore: number;
+  awayScore: number;
+  halfTimeScore?: { homeScore: number; awayScore: number } | null; // Set from half-time on
+  goalscorers?: (PlayerId | null)[]; // In scoring order; null where the scorer wasn't recorded
+  regularTimeScore?: MatchScore | null; // Knockout ties that went to extra time: the score after 90 minutes
+  winner?: 'home' | 'away' | null; // Knockout ties, once decided
+}
+
+// What the markets are priced from: the score plus who is playing
+export type MatchPricingState = MatchScore & { homeTeam: string; awayTeam: string; substitutedOff?: PlayerId[] };
+
+export const OVER_UNDER_LINES = [0.5, 1.5, 2.5, 3.5];
+
+export interface OverUnderPrice {
+  line: number;
+  over: number;
+  under: number;
+}
+
+// Correct score grid runs 0-0 to 4-4
+export const CORRECT_SCORE_MAX_GOALS = 4;
+
+const RESULT_OUTCOMES: ResultOutcome[] = ['home', 'draw', 'away'];
+
+export const HALF_TIME_FULL_TIME_OUTCOMES: HalfTimeFullTimeOutcome[] = RESULT_OUTCOMES.flatMap(halfTime =>
+  RESULT_OUTCOMES.map(fullTime => `${halfTime}/${fullTime}` as HalfTimeFullTimeOutcome)
+);
+
+export const DOUBLE_CHANCE_OUTCOMES: DoubleChanceOutcome[] = ['1X', 'X2', '12'];
+
+const DOUBLE_CHANCE_RESULTS: Record<DoubleChanceOutcome, ResultOutcome[]> = {
+  '1X': ['home', 'draw'],
+  'X2': ['draw', 'away'],
+  '12': ['home', 'away']
+};
+
+export interface OutcomePrice<K extends MarketOutcome> {
+  outcome: K;
+  odds: number;
+}
+
+// In-play prices of the markets the engine re-prices along with the 1X2
+export interface MatchMarkets {
+  overUnder: OverUnderPrice[];
+  correctScore: OutcomePrice<CorrectScoreOutcome>[]; // Empty once the score is past the grid
+  halfTimeFullTime: OutcomePrice<HalfTimeFullTimeOutcome>[];
+  bothTeamsToScore: OutcomePrice<BothTeamsToScoreOutcome>[]; // Empty once both sides have scored
+  doubleChance: OutcomePrice<DoubleChanceOutcome>[];
+  drawNoBet: OutcomePrice<DrawNoBetOutcome>[];
+  asianHandicap: AsianHandicapPrice[];
+  asianGoalLines: AsianGoalLinePrice[];
+  firstGoalscorer: OutcomePrice<GoalscorerOutcome>[]; // Empty once the first goal is in
+  nextGoalscorer: { goal: number; prices: OutcomePrice<GoalscorerOutcome>[] };
+  anytimeGoalscorer: OutcomePrice<PlayerId>[]; // Players who have scored are settled
+  toQualify: OutcomePrice<QualifyOutcome>[]; // Empty unless the match is a knockout tie
+}
+
+const getResult = (homeScore: number, awayScore: number): ResultOutcome =>
+  homeScore > awayScore ? 'home' : awayScore > homeScore ? 'away' : 'draw';
+
+export function getCorrectScoreOutcome({ homeScore, awayScore }: MatchScore): CorrectScoreOutcome {
+  return homeScore <= CORRECT_SCORE_MAX_GOALS && awayScore <= CORRECT_SCORE_MAX_GOALS
+    ? `${homeScore}-${awayScore}`
+    : 'other';
+}
+
+export function getHalfTimeFullTimeOutcome(score: MatchScore): HalfTimeFullTimeOutcome | null {
+  if (!score.halfTimeScore) return null;
+  const halfTime = getResult(score.halfTimeScore.homeScore, score.halfTimeScore.awayScore);
+  return `${halfTime}/${getResult(score.homeScore, score.awayScore)}`;
+}
+
+// Price the outcomes that can still happen; impossible ones are taken off the board, and so is
+// the whole market once one outcome is certain (e.g. 'other' once the score is past the grid)
+function priceOutcomes<K extends MarketOutcome>(probabilities: Map<K, number>): OutcomePrice<K>[] {
+  const possible = Object.fromEntries([...probabilities].filter(([, probability]) => probability > 0)) as Record<K, number>;
+  if (isDecided(possible)) return [];
+
+  const odds = priceMarket(possible);
+  return (Object.keys(possible) as K[]).map(outcome => ({ outcome, odds: odds[outcome] }));
+}
+
+function priceCorrectScore(remaining: ExpectedGoals, score: MatchScore): OutcomePrice<CorrectScoreOutcome>[] {
+  const probabilities = new Map<CorrectScoreOutcome, number>();
+  for (let home = 0; home <= CORRECT_SCORE_MAX_GOALS; home++) {
+    for (let away = 0; away <= CORRECT_SCORE_MAX_GOALS; away++) {
+      probabilities.set(`${home}-${away}`, 0);
+    }
+  }
+  probabilities.set('other', 0);
+
+  getScoreProbabilities(remaining).forEach((row, homeGoals) => row.forEach((probability, awayGoals) => {
+    const outcome = getCorrectScoreOutcome({
+      homeScore: score.homeScore + homeGoals,
+      awayScore: score.awayScore + awayGoals
+    });
+    probabilities.set(outcome, probabilities.get(outcome)! + probability);
+  }));
+
+  return priceOutcomes(probabilities);
+}
+
+/**
+ * HT/FT plays the rest of the first half on from the current score, then the
+ * second half on from every possible half-time score. Once half-time has been
+ * reached only the full-time half of the outcome is still open.
+ *
+ * `firstHalfShare` is the part of the remaining play that falls before
+ * half-time.
+ */
+function priceHalfTimeFullTime(remaining: ExpectedGoals, score: MatchScore, firstHalfShare: number): OutcomePrice<HalfTimeFullTimeOutcome>[] {
+  const firstHalf = getScoreProbabilities({ home: remaining.home * firstHalfShare, away: remaining.away * firstHalfShare });
+  const secondHalf = getScoreProbabilities({ home: remaining.home * (1 - firstHalfShare), away: remaining.away * (1 - firstHalfShare) });
+  const halfTimeScore = score.halfTimeScore;
+
+  // Only the second half's goal difference decides the full-time result
+  const secondHalfDifferences = new Map<number, number>();
+  secondHalf.forEach((row, homeGoals) => row.forEach((probability, awayGoals) => {
+    secondHalfDifferences.set(homeGoals - awayGoals, (secondHalfDifferences.get(homeGoals - awayGoals) ?? 0) + probability);
+  }));
+
+  const probabilities = new Map<HalfTimeFullTimeOutcome, number>(HALF_TIME_FULL_TIME_OUTCOMES.map(outcome => [outcome, 0]));
+
+  firstHalf.forEach((row, firstHalfHome) => row.forEach((firstHalfProbability, firstHalfAway) => {
+    const halfTimeHome = halfTimeScore ? halfTimeScore.homeScore : score.homeScore + firstHalfHome;
+    const halfTimeAway = halfTimeScore ? halfTimeScore.awayScore : score.awayScore + firstHalfAway;
+    const halfTime = getResult(halfTimeHome, halfTimeAway);
+
+    // Second-half goals come on top of whatever the score is by then
+    const baseHome = halfTimeScore ? score.homeScore : halfTimeHome;
+    const baseAway = halfTimeScore ? score.awayScore : halfTimeAway;
+
+    secondHalfDifferences.forEach((secondHalfProbability, difference) => {
+      const outcome: HalfTimeFullTimeOutcome = `${halfTime}/${getResult(baseHome + difference, baseAway)}`;
+      probabilities.set(outcome, probabilities.get(outcome)! + firstHalfProbability * secondHalfProbability);
+    });
+  }));
+
+  return priceOutcomes(probabilities);
+}
+
+/**
+ * BTTS is decided as soon as the second side scores - the bet still settles at
+ * full time - so it only trades while at least one side is still to score.
+ */
+function priceBothTeamsToScore(remaining: ExpectedGoals, score: MatchScore): OutcomePrice<BothTeamsToScoreOutcome>[] {
+  if (score.homeScore > 0 && score.awayScore > 0) return [];
+
+  const homeScores = score.homeScore > 0 ? 1 : 1 - Math.exp(-remaining.home);
+  const awayScores = score.awayScore > 0 ? 1 : 1 - Math.exp(-remaining.away);
+  const yes = homeScores * awayScores;
+
+  return priceOutcomes(new Map<BothTeamsToScoreOutcome, number>([['yes', yes], ['no', 1 - yes]]));
+}
+
+/**
+ * Double chance outcomes overlap, so they can't be priced as one book: each is
+ * priced on its own chance of landing, with the margin applied to it.
+ */
+function priceDoubleChance(result: Record<ResultOutcome, number>): OutcomePrice<DoubleChanceOutcome>[] {
+  const probabilities = DOUBLE_CHANCE_OUTCOMES.map(outcome =>
+    DOUBLE_CHANCE_RESULTS[outcome].reduce((sum, side) => sum + result[side], 0)
+  );
+  if (probabilities.some(probability => probability >= 1)) return [];
+
+  return DOUBLE_CHANCE_OUTCOMES.map((outcome, index) => ({ outcome, odds: probabilityToOdds(probabilities[index]) }));
+}
+
+// With the draw refunded, Draw No Bet is the 1X2 book without the draw
+function priceDrawNoBet(result: Record<ResultOutcome, number>): OutcomePrice<DrawNoBetOutcome>[] {
+  return priceOutcomes(new Map<DrawNoBetOutcome, number>([['home', result.home], ['away', result.away]]));
+}
+
+// Goals each player is still expected to score: their side's remaining goals times their
+// share. Substitutes aren't modelled, so a side's goals are shared among the players still on.
+function getScorerRates(remaining: ExpectedGoals, match: MatchPricingState): { id: PlayerId; rate: number }[] {
+  const substitutedOff = match.substitutedOff ?? [];
+  return (['home', 'away'] as const).flatMap(side =>
+    getPlayerShares(
+      getSquad(side === 'home' ? match.homeTeam : match.awayTeam).filter(player => !substitutedOff.includes(player.id)),
+      'goal'
+    ).map(({ player, share }) => ({ id: player.id, rate: remaining[side] * share }))
+  );
+}
+
+/**
+ * Next goalscorer: goals arrive as a Poisson process, so the chance a player
+ * scores the next one is their share of the rate times the chance there is
+ * another goal at all.
+ */
+function priceNextGoalscorer(rates: { id: PlayerId; rate: number }[]): OutcomePrice<GoalscorerOutcome>[] {
+  const total = rates.reduce((sum, { rate }) => sum + rate, 0);
+  const anotherGoal = 1 - Math.exp(-total);
+
+  const probabilities = new Map<GoalscorerOutcome, number>(
+    rates.map(({ id, rate }) => [id, total > 0 ? rate / total * anotherGoal : 0])
+  );
+  probabilities.set('none', 1 - anotherGoal);
+
+  return priceOutcomes(probabilities);
+}
+
+// Anytime outcomes overlap, so each player is priced on their own chance of scoring
+function priceAnytimeGoalscorer(rates: { id: PlayerId; rate: number }[], scored: (PlayerId | null)[]): OutcomePrice<PlayerId>[] {
+  return rates
+    .filter(({ id }) => !scored.includes(id))
+    .map(({ id, rate }) => ({ outcome: id, odds: probabilityToOdds(1 - Math.exp(-rate)) }));
+}
+
+/**
+ * Price every market from the goals each side is still expected to score,
+ * `firstHalfShare` of them before half-time. Lines and outcomes the score has
+ * already decided are taken off the board.
+ */
+export function priceMatchMarkets(remaining: ExpectedGoals, score: MatchPricingState, firstHalfShare: number): MatchMarkets {
+  const goalsScored = score.homeScore + score.awayScore;
+  const result = getResultProbabilities(remaining, score.homeScore - score.awayScore);
+  const scorerRates = getScorerRates(remaining, score);
+  const nextGoalscorer = priceNextGoalscorer(scorerRates);
+
+  return {
+    overUnder: OVER_UNDER_LINES
+      .filter(line => goalsScored < line)
+      .map(line => ({ line, ...priceMarket(getTotalGoalsProbabilities(remaining, goalsScored, line)) })),
+    correctScore: priceCorrectScore(remaining, score),
+    halfTimeFullTime: priceHalfTimeFullTime(remaining, score, firstHalfShare),
+    bothTeamsToScore: priceBothTeamsToScore(remaining, score),
+    doubleChance: priceDoubleChance(result),
+    drawNoBet: priceDrawNoBet(result),
+    asianHandicap: priceAsianHandicap(remaining, score.homeScore, score.awayScore),
+    asianGoalLines: priceAsianGoalLines(remaining, goalsScored),
+    firstGoalscorer: goalsScored === 0 ? nextGoalscorer : [],
+    nextGoalscorer: { goal: goalsScored + 1, prices: nextGoalscorer },
+    anytimeGoalscorer: priceAnytimeGoalscorer(scorerRates, score.goalscorers ?? []),
+    toQualify: []
+  };
+}
+
+// Who goes through, extra time and penalties included
+export function priceToQualify(homeProbability: number): OutcomePrice<QualifyOutcome>[] {
+  return priceOutcomes(new Map<QualifyOutcome, number>([['home', homeProbability], ['away', 1 - homeProbability]]));
+}
+
+/**
+ * What a market's bets are settled on, as shown with the market.
+ */
+export function getSettlementRule(marketId: MarketId, knockout: boolean): string {
+  if (marketId === 'to-qualify') {
+    return 'Settled on the team that goes through, including extra time and penalties.';
+  }
+  return knockout
+    ? 'Settled on the 90 minutes plus added time. Extra time and penalties do not count.'
+    : 'Settled on the 90 minutes plus added time.';
+}
+
+/**
+ * The selection a full-match or lobby bet was placed on. (Action bets keep a
+ * free-form outcome and are settled by their own market rules.)
+ */
+export function getBetSelection(bet: Pick<Bet, 'marketId' | 'outcome' | 'line'>): MarketSelection {
+  return { marketId: bet.marketId, outcome: bet.outcome as MarketOutcome, line: bet.line };
+}
+
+export function getMarketId(selection: Pick<MarketSelection, 'marketId'>): MarketId {
+  return selection.marketId ?? 'match-result';
+}
+
+export function isSameSelection(a: MarketSelection, b: MarketSelection): boolean {
+  return getMarketId(a) === getMarketId(b) && a.outcome === b.outcome && a.line === b.line;
+}
+
+/**
+ * Current price of a selection, or null when the market is closed.
+ */
+export function getSelectionPrice(
+  selection: MarketSelection,
+  match: Pick<MatchData, 'homeOdds' | 'drawOdds' | 'awayOdds' | 'regularTimeScore' | 'status'>,
+  markets: MatchMarkets
+): number | null {
+  // Nothing is taken after full time - the bet would never be settled
+  if (match.status === 'finished') return null;
+  // The 90 minutes are up once a tie goes to extra time
+  if (match.regularTimeScore && getMarketId(selection) !== 'to-qualify') return null;
+
+  switch (getMarketId(selection)) {
+    case 'match-result':
+      return selection.outcome === 'home' ? match.homeOdds :
+        selection.outcome === 'draw' ? match.drawOdds :
+        selection.outcome === 'away' ? match.awayOdds : null;
+    case 'over-under': {
+      const price = markets.overUnder.find(market => market.line === selection.line);
+      return price && (selection.outcome === 'over' || selection.outcome === 'under') ? price[selection.outcome] : null;
+    }
+    case 'correct-score':
+      return markets.correctScore.find(price => price.outcome === selection.outcome)?.odds ?? null;
+    case 'half-time-full-time':
+      return markets.halfTimeFullTime.find(price => price.outcome === selection.outcome)?.odds ?? null;
+    case 'both-teams-to-score':
+      return markets.bothTeamsToScore.find(price => price.outcome === selection.outcome)?.odds ?? null;
+    case 'double-chance':
+      return markets.doubleChance.find(price => price.outcome === selection.outcome)?.odds ?? null;
+    case 'draw-no-bet':
+      return markets.drawNoBet.find(price => price.outcome === selection.outcome)?.odds ?? null;
+    case 'asian-handicap': {
+      const price = markets.asianHandicap.find(market => market.line === selection.line);
+      return price && (selection.outcome === 'home' || selection.outcome === 'away') ? price[selection.outcome] : null;
+    }
+    case 'asian-goal-line': {
+      const price = markets.asianGoalLines.find(market => market.line === selection.line);
+      return price && (selection.outcome === 'over' || selection.outcome === 'under') ? price[selection.outcome] : null;
+    }
+    case 'first-goalscorer':
+      return markets.firstGoalscorer.find(price => price.outcome === selection.outcome)?.odds ?? null;
+    case 'next-goalscorer':
+      return markets.nextGoalscorer.goal === selection.line
+        ? markets.nextGoalscorer.prices.find(price => price.outcome === selection.outcome)?.odds ?? null
+        : null;
+    case 'anytime-goalscorer':
+      return markets.anytimeGoalscorer.find(price => price.outcome === selection.outcome)?.odds ?? null;
+    case 'to-qualify':
+      return markets.toQualify.find(price => price.outcome === selection.outcome)?.odds ?? null;
+  }
+}
+
+/**
+ * Settle a bet on who scores goal number `goal`. Goals whose scorer wasn't
+ * recorded void the bet.
+ */
+function settleGoalscorer(outcome: MarketOutcome, goal: number, scorers: (PlayerId | null)[] | undefined): BetResult {
+  if (!scorers) return 'void';
+  if (scorers.length < goal) return outcome === 'none' ? 'won' : 'lost';
+
+  const scorer = scorers[goal - 1];
+  if (scorer === null) return 'void';
+  return outcome === scorer ? 'won' : 'lost';
+}
+
+/**
+ * How a selection settles on the final score.
+ */
+export function settleSelection(selection: MarketSelection, score: MatchScore): BetResult {
+  if (getMarketId(selection) === 'to-qualify') {
+    return score.winner ? (selection.outcome === score.winner ? 'won' : 'lost') : 'void';
+  }
+  // Extra time doesn't count towards the 90-minute markets
+  if (score.regularTimeScore) {
+    return settleSelection(selection, score.regularTimeScore);
+  }
+
+  const { homeScore, awayScore } = score;
+  const result = getResult(homeScore, awayScore);
+  const wonIf = (won: boolean): BetResult => won ? 'won' : 'lost';
+
+  switch (getMarketId(selection)) {
+    case 'match-result':
+      return wonIf(selection.outcome === result);
+    case 'over-under': {
+      const totalGoals = homeScore + awayScore;
+      return wonIf(selection.outcome === 'over' ? totalGoals > selection.line! : totalGoals < selection.line!);
+    }
+    case 'correct-score':
+      return wonIf(selection.outcome === getCorrectScoreOutcome(score));
+    case 'half-time-full-time':
+      return wonIf(selection.outcome === getHalfTimeFullTimeOutcome(score));
+    case 'both-teams-to-score':
+      return wonIf((selection.outcome === 'yes') === (homeScore > 0 && awayScore > 0));
+    case 'double-chance':
+      return wonIf(DOUBLE_CHANCE_RESULTS[selection.outcome as DoubleChanceOutcome].includes(result));
+    case 'draw-no-bet':
+      return result === 'draw' ? 'void' : wonIf(selection.outcome === result);
+    case 'asian-handicap':
+      return selection.outcome === 'home'
+        ? settleAsianLine(homeScore - awayScore, selection.line!)
+        : settleAsianLine(awayScore - homeScore, -selection.line!);
+    case 'asian-goal-line': {
+      const totalGoals = homeScore + awayScore;
+      return selection.outcome === 'over'
+        ? settleAsianLine(totalGoals, -selection.line!)
+        : settleAsianLine(-totalGoals, selection.line!);
+    }
+    case 'first-goalscorer':
+      return settleGoalscorer(selection.outcome, 1, score.goalscorers);
+    case 'next-goalscorer':
+      return settleGoalscorer(selection.outcome, selection.line!, score.goalscorers);
+    case 'anytime-goalscorer': {
+      const scorers = score.goalscorers;
+      if (!scorers) return 'void';
+      if (scorers.includes(selection.outcome as PlayerId)) return 'won';
+      return scorers.includes(null) ? 'void' : 'lost';
+    }
+    case 'to-qualify':
+      return 'void';
+  }
+}
+
+export function getGoalscorerLabel(outcome: MarketOutcome): string {
+  return outcome === 'none' ? 'No goalscorer' : getPlayerName(outcome as PlayerId);
+}
+
+export function getSelectionLabel(
+  selection: MarketSelection,
+  teams: { homeTeam?: string; awayTeam?: string }
+): string {
+  const teamLabel = (side: string) =>
+    side === 'home' ? teams.homeTeam ?? 'Home' : side === 'away' ? teams.awayTeam ?? 'Away' : 'Draw';
+
+  switch (getMarketId(selection)) {
+    case 'match-result':
+      return teamLabel(selection.outcome);
+    case 'over-under':
+      return `${selection.outcome === 'over' ? 'Over' : 'Under'} ${selection.line} goals`;
+    case 'correct-score':
+      return selection.outcome === 'other' ? 'Any other score' : `Correct score ${selection.outcome}`;
+    case 'half-time-full-time': {
+      const [halfTime, fullTime] = selection.outcome.split('/');
+      return `HT ${teamLabel(halfTime)} / FT ${teamLabel(fullTime)}`;
+    }
+    case 'both-teams-to-score':
+      return `Both teams to score: ${selection.outcome === 'yes' ? 'Yes' : 'No'}`;
+    case 'double-chance':
+      return `Double chance ${DOUBLE_CHANCE_RESULTS[selection.outcome as DoubleChanceOutcome].map(teamLabel).join(' or ')}`;
+    case 'draw-no-bet':
+      return `${teamLabel(selection.outcome)} (draw no bet)`;
+    case 'asian-handicap': {
+      const line = selection.outcome === 'home' ? selection.line! : -selection.line!;
+      return `${teamLabel(selection.outcome)} ${formatHandicap(line)} (Asian handicap)`;
+    }
+    case 'asian-goal-line':
+      return `${selection.outcome === 'over' ? 'Over' : 'Under'} ${selection.line} goals (Asian)`;
+    case 'first-goalscorer':
+      return `First goalscorer: ${getGoalscorerLabel(selection.outcome)}`;
+    case 'next-goalscorer':
+      return `Goal ${selection.line} scorer: ${getGoalscorerLabel(selection.outcome)}`;
+    case 'anytime-goalscorer':
+      return `Anytime goalscorer: ${getGoalscorerLabel(selection.outcome)}`;
+    case 'to-qualify':
+      return `${teamLabel(selection.outcome)} to qualify`;
+  }
+}
@@ -0,0 +1,92 @@
+import { ActionEvent } from '../../App';
+import { INCIDENT_RATES, MatchIncidentType, getMatchIncidents } from './matchEngine';
+
+/**
+ * Match statistics, aggregated from the incidents in the match feed.
+ *
+ * The engine doesn't track the ball between incidents, so possession is
+ * estimated from the incidents that show who had it - shots, set pieces,
+ * restarts - starting from an even split that the match pulls away from as
+ * it is played.
+ */
+
+export interface TeamStats {
+  possession: number; // Percent, the two sides add up to 100
+  shots: number;
+  shotsOnTarget: number;
+  corners: number;
+  fouls: number;
+  cards: number;
+  expectedGoals: number;
+}
+
+export type MatchStats = Record<'home' | 'away', TeamStats>;
+
+// Every shot the engine plays out goes in with the same chance
+const SHOT_EXPECTED_GOALS = INCIDENT_RATES.onTarget * INCIDENT_RATES.conversion;
+
+// Spells of possession each incident stands for, credited to the side it happened to
+const POSSESSION_SPELLS: Partial<Record<MatchIncidentType, number>> = {
+  'shot': 3,
+  'corner': 2,
+  'offside': 2,
+  'free-kick': 1,
+  'throw-in': 1,
+  'goal-kick': 1
+};
+
+// Spells each side starts with, so a handful of incidents can't swing possession to 90%
+const POSSESSION_PRIOR = 10;
+
+const emptyStats = (): TeamStats => ({
+  possession: 50,
+  shots: 0,
+  shotsOnTarget: 0,
+  corners: 0,
+  fouls: 0,
+  cards: 0,
+  expectedGoals: 0
+});
+
+export function getMatchStats(events: ActionEvent[]): MatchStats {
+  const stats: MatchStats = { home: emptyStats(), away: emptyStats() };
+  const spells = { home: POSSESSION_PRIOR, away: POSSESSION_PRIOR };
+
+  getMatchIncidents(events).forEach(({ type, team }) => {
+    const side = stats[team];
+    spells[team] += POSSESSION_SPELLS[type] ?? 0;
+
+    switch (type) {
+      case 'shot':
+        side.shots += 1;
+        side.expectedGoals += SHOT_EXPECTED_GOALS;
+        break;
+      case 'shot-on-target':
+        side.shotsOnTarget += 1;
+        break;
+      case 'corner':
+        side.corners += 1;
+        break;
+      case 'foul':
+        side.fouls += 1;
+        break;
+      case 'card':
+        side.cards += 1;
+        break;
+    }
+  });
+
+  stats.home.possession = Math.round(spells.home / (spells.home + spells.away) * 100);
+  stats.away.possession = 100 - stats.home.possession;
+  return stats;
+}
+
+export const MATCH_STAT_ROWS: { key: keyof TeamStats; label: string; format?: (value: number) => string }[] = [
+  { key: 'possession', label: 'Possession', format: value => `${value}%` },
+  { key: 'shots', label: 'Shots' },
+  { key: 'shotsOnTarget', label: 'Shots on target' },
+  { key: 'expectedGoals', label: 'Expected goals (xG)', format: value => value.toFixed(2) },
+  { key: 'corners', label: 'Corners' },
+  { key: 'fouls', label: 'Fouls' },
+  { key: 'cards', label: 'Cards' }
+];
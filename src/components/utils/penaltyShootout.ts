@@ -0,0 +1,99 @@
+import { Player, PlayerId, getPlayerShares } from './squads';
+
+/**
+ * Penalty shoot-outs for knockout ties still level after extra time.
+ *
+ * The sides take turns, five kicks each, and the shoot-out ends as soon as
+ * one of them can no longer be caught. Level after five kicks each, it goes
+ * to sudden death: a round at a time until one side scores and the other
+ * doesn't.
+ */
+
+export const SHOOTOUT_ROUNDS = 5;
+
+// Chance a kick goes in; misses are mostly saves
+export const PENALTY_CONVERSION = 0.75;
+export const PENALTY_SAVED_SHARE = 0.65;
+
+export interface PenaltyKick {
+  team: 'home' | 'away';
+  playerId: PlayerId;
+  scored: boolean;
+}
+
+export interface Shootout {
+  firstKicker: 'home' | 'away'; // Won the toss
+  kicks: PenaltyKick[];
+}
+
+type Tally = Record<'scored' | 'taken', Record<'home' | 'away', number>>;
+
+export function getShootoutTally(kicks: Pick<PenaltyKick, 'team' | 'scored'>[]): Tally {
+  const tally: Tally = { scored: { home: 0, away: 0 }, taken: { home: 0, away: 0 } };
+  kicks.forEach(({ team, scored }) => {
+    tally.taken[team] += 1;
+    if (scored) tally.scored[team] += 1;
+  });
+  return tally;
+}
+
+// Decided once a side couldn't catch up even scoring every kick it has left in the round
+function getTallyWinner({ scored, taken }: Tally): 'home' | 'away' | null {
+  const rounds = Math.max(SHOOTOUT_ROUNDS, taken.home, taken.away);
+  if (scored.home + rounds - taken.home < scored.away) return 'away';
+  if (scored.away + rounds - taken.away < scored.home) return 'home';
+  return null;
+}
+
+export function getShootoutWinner(shootout: Shootout): 'home' | 'away' | null {
+  return getTallyWinner(getShootoutTally(shootout.kicks));
+}
+
+export function getNextKicker({ firstKicker, kicks }: Shootout): 'home' | 'away' {
+  return kicks.length % 2 === 0 ? firstKicker : firstKicker === 'home' ? 'away' : 'home';
+}
+
+// The side in goal for the latest kick, or the first one before any have been taken
+export function getShootoutKeeper({ firstKicker, kicks }: Shootout): 'home' | 'away' {
+  const kicker = kicks.length > 0 ? kicks[kicks.length - 1].team : firstKicker;
+  return kicker === 'home' ? 'away' : 'home';
+}
+
+/**
+ * Who steps up next for a side: the likeliest scorers first, the keeper last,
+ * and round again in a long sudden death.
+ */
+export function getPenaltyTaker(squad: Player[], kicksTaken: number): Player {
+  const takers = [
+    ...getPlayerShares(squad.filter(player => player.position !== 'GK'), 'goal')
+      .sort((a, b) => b.share - a.share)
+      .map(({ player }) => player),
+    ...squad.filter(player => player.position === 'GK')
+  ];
+  return takers[kicksTaken % takers.length];
+}
+
+/**
+ * Chance the home side wins the shoot-out from where it stands. Both sides
+ * convert at the same rate, so a sudden death that starts level is a coin toss.
+ */
+export function getShootoutWinProbability(shootout: Shootout, conversion: number = PENALTY_CONVERSION): number {
+  const play = (tally: Tally): number => {
+    const winner = getTallyWinner(tally);
+    if (winner) return winner === 'home' ? 1 : 0;
+
+    const { scored, taken } = tally;
+    if (taken.home === taken.away && taken.home >= SHOOTOUT_ROUNDS) return 0.5;
+
+    const team = (taken.home + taken.away) % 2 === 0
+      ? shootout.firstKicker
+      : shootout.firstKicker === 'home' ? 'away' : 'home';
+    const kick = (goal: boolean): Tally => ({
+      scored: { ...scored, [team]: scored[team] + (goal ? 1 : 0) },
+      taken: { ...taken, [team]: taken[team] + 1 }
+    });
+    return conversion * play(kick(true)) + (1 - conversion) * play(kick(false));
+  };
+
+  return play(getShootoutTally(shootout.kicks));
+}
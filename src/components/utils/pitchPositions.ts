@@ -0,0 +1,159 @@
+import { MatchIncident, MatchIncidentType } from './matchEngine';
+
+/**
+ * Where the ball is on the pitch.
+ *
+ * Each tick the engine lays out a short path for the ball that follows what
+ * happened in it: a shot is struck from the attacking third, a goal ends in
+ * the net, a corner is taken from the flag. The pitch animates that path
+ * rather than inventing movement of its own.
+ *
+ * Positions are percentages of the pitch: x runs from the home goal line (0)
+ * to the away goal line (100), so the home side attacks left to right, and y
+ * from the top touchline (0) to the bottom one (100).
+ */
+
+export type BallAction =
+  | 'kick-off'
+  | 'play'
+  | 'shot'
+  | 'goal'
+  | 'save'
+  | 'corner'
+  | 'throw-in'
+  | 'goal-kick'
+  | 'free-kick'
+  | 'offside'
+  | 'penalty'
+  | 'miss';
+
+export interface BallPosition {
+  x: number;
+  y: number;
+  team: 'home' | 'away'; // Side on the ball
+  action: BallAction;
+}
+
+// How hard each side is pushing, from 0 (sitting back) to 1 (camped in the box)
+export type Pressure = Record<'home' | 'away', number>;
+
+export const KICK_OFF: BallPosition = { x: 50, y: 50, team: 'home', action: 'kick-off' };
+
+// Shoot-outs are taken at the away end, from 11 of the pitch's 105 metres out
+const PENALTY_SPOT = { x: 89.5, y: 50 };
+
+// Pressure left after a tick, and what attacking incidents add to it
+const PRESSURE_DECAY = 0.8;
+const PRESSURE_GAIN: Partial<Record<MatchIncidentType, number>> = {
+  'shot': 0.25,
+  'shot-on-target': 0.15,
+  'goal': 0.3,
+  'corner': 0.2,
+  'offside': 0.1
+};
+
+// Chance the ball changes hands in a tick of open play
+const TURNOVER_CHANCE = 0.35;
+
+const otherTeam = (team: 'home' | 'away') => (team === 'home' ? 'away' : 'home');
+
+// A point `depth` percent of the way from a side's own goal line to the one it attacks
+const towards = (team: 'home' | 'away', depth: number) => (team === 'home' ? depth : 100 - depth);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export function updatePressure(pressure: Pressure, incidents: MatchIncident[]): Pressure {
+  const next = { home: pressure.home * PRESSURE_DECAY, away: pressure.away * PRESSURE_DECAY };
+  incidents.forEach(({ type, team }) => {
+    next[team] = Math.min(1, next[team] + (PRESSURE_GAIN[type] ?? 0));
+  });
+  return next;
+}
+
+/**
+ * The ball's path through one tick, starting from where the last one left it.
+ * Ticks without incidents are open play: the side on the ball works it
+ * forward, further the more pressure it is applying, and may lose it.
+ */
+export function planBallPath(
+  start: BallPosition,
+  incidents: MatchIncident[],
+  pressure: Pressure,
+  random: () => number
+): BallPosition[] {
+  const between = (from: number, to: number) => from + random() * (to - from);
+
+  // A shoot-out kick goes from the spot into the net, into the keeper's hands or wide
+  const kick = incidents.find(({ type }) => type === 'penalty-scored' || type === 'penalty-missed');
+  if (kick) {
+    const saved = incidents.some(({ type }) => type === 'save');
+    return [
+      { ...PENALTY_SPOT, team: kick.team, action: 'penalty' },
+      kick.type === 'penalty-scored' ? { x: 101, y: between(46, 54), team: kick.team, action: 'goal' } :
+      saved ? { x: 97, y: between(42, 58), team: otherTeam(kick.team), action: 'save' } :
+      { x: 101, y: random() < 0.5 ? between(32, 40) : between(60, 68), team: kick.team, action: 'miss' }
+    ];
+  }
+
+  const path: BallPosition[] = [];
+  let ball = start;
+
+  const moveTo = (x: number, y: number, team: 'home' | 'away', action: BallAction) => {
+    ball = { x, y, team, action };
+    path.push(ball);
+  };
+
+  // The side that conceded kicks off
+  if (start.action === 'goal') {
+    moveTo(KICK_OFF.x, KICK_OFF.y, otherTeam(start.team), 'kick-off');
+  }
+
+  incidents.forEach(incident => {
+    const { team } = incident;
+    // Play stops for a goal and restarts from the centre spot
+    if (ball.action === 'goal') return;
+
+    switch (incident.type) {
+      case 'shot':
+        moveTo(towards(team, between(75, 90)), between(30, 70), team, 'shot');
+        break;
+      case 'goal':
+        // Over the line and into the back of the net
+        moveTo(towards(team, 101), between(46, 54), team, 'goal');
+        break;
+      case 'save':
+        moveTo(towards(team, 3), between(44, 56), team, 'save');
+        break;
+      case 'corner':
+        moveTo(towards(team, 100), random() < 0.5 ? 0 : 100, team, 'corner');
+        break;
+      case 'throw-in':
+        moveTo(ball.x, ball.y < 50 ? 0 : 100, team, 'throw-in');
+        break;
+      case 'goal-kick':
+        moveTo(towards(team, 6), between(40, 60), team, 'goal-kick');
+        break;
+      case 'foul':
+        // The side fouled takes the free kick from where it happened
+        moveTo(incident.half === 'away-half' ? between(55, 90) : between(10, 45), between(15, 85), otherTeam(team), 'free-kick');
+        break;
+      case 'offside':
+        moveTo(towards(team, between(70, 85)), between(20, 80), otherTeam(team), 'offside');
+        break;
+    }
+  });
+
+  if (path.length === 0 || ball.action === 'kick-off') {
+    const team = random() < TURNOVER_CHANCE ? otherTeam(ball.team) : ball.team;
+    const advance = between(-6, 12) + pressure[team] * 10;
+    moveTo(
+      clamp(ball.x + (team === 'home' ? advance : -advance), 8, 92),
+      // Drifting back towards the middle rather than hugging a touchline
+      clamp(ball.y + between(-15, 15) + (50 - ball.y) * 0.2, 8, 92),
+      team,
+      'play'
+    );
+  }
+
+  return path;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HOUSE_MARGIN,
+  MAX_ODDS,
+  MIN_ODDS,
+  getImpliedProbabilities,
+  getOverround,
+  getResultProbabilities,
+  isDecided,
+  priceMarket,
+  probabilityToOdds
+} from './pricing';
+
+describe('probabilityToOdds', () => {
+  it('builds the house margin into the price and rounds down', () => {
+    expect(probabilityToOdds(0.5)).toBe(1.9);
+    expect(probabilityToOdds(0.5, 0)).toBe(2);
+    expect(probabilityToOdds(1 / 3)).toBe(2.85);
+  });
+
+  it('clamps prices to the odds range', () => {
+    expect(probabilityToOdds(0.999)).toBe(MIN_ODDS);
+    expect(probabilityToOdds(0.001)).toBe(MAX_ODDS);
+    expect(probabilityToOdds(0)).toBe(MAX_ODDS);
+  });
+});
+
+describe('isDecided', () => {
+  it('spots a book with a certain outcome', () => {
+    expect(isDecided({ yes: 0, no: 1 })).toBe(true);
+    expect(isDecided({ other: 0.3 })).toBe(true);
+    expect(isDecided({ yes: 0.01, no: 0.99 })).toBe(false);
+  });
+});
+
+describe('priceMarket', () => {
+  it('never gives away less overround than the house margin', () => {
+    const books: Record<string, number>[] = [
+      { home: 0.45, draw: 0.27, away: 0.28 },
+      { home: 0.7, draw: 0.2, away: 0.1 },
+      { yes: 0.52, no: 0.48 },
+      { over: 3, under: 1 }
+    ];
+
+    books.forEach(probabilities => {
+      const overround = getOverround(priceMarket(probabilities));
+      expect(overround).toBeGreaterThanOrEqual(1 + HOUSE_MARGIN);
+      expect(overround).toBeLessThan(1 + HOUSE_MARGIN + 0.02);
+    });
+  });
+
+  it('prices from normalised probabilities', () => {
+    const odds = priceMarket({ over: 3, under: 1 });
+    const implied = getImpliedProbabilities(odds);
+
+    expect(implied.over).toBeCloseTo(0.75, 2);
+    expect(implied.under).toBeCloseTo(0.25, 2);
+  });
+});
+
+describe('getResultProbabilities', () => {
+  it('favours the side in front and sums to one', () => {
+    const level = getResultProbabilities({ home: 1, away: 1 });
+    const homeLead = getResultProbabilities({ home: 1, away: 1 }, 1);
+
+    expect(level.home + level.draw + level.away).toBeCloseTo(1, 10);
+    expect(level.home).toBeCloseTo(level.away, 10);
+    expect(homeLead.home).toBeGreaterThan(level.home);
+    expect(homeLead.away).toBeLessThan(level.away);
+  });
+});
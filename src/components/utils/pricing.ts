@@ -0,0 +1,147 @@
+import { ExpectedGoals } from './teamRatings';
+
+/**
+ * Bookmaker pricing.
+ *
+ * Every market is priced from a probability model: the probabilities are
+ * normalised, scaled up by the house margin and converted to decimal odds.
+ * Odds are always rounded down, so a book never ends up with less overround
+ * than the margin (and can never be backed for a guaranteed profit).
+ */
+
+// Overround applied to every book - 0.05 means implied probabilities sum to 105%
+export const HOUSE_MARGIN = 0.05;
+
+export const MIN_ODDS = 1.01;
+export const MAX_ODDS = 100;
+
+export function normalizeProbabilities<K extends string>(probabilities: Record<K, number>): Record<K, number> {
+  const keys = Object.keys(probabilities) as K[];
+  const total = keys.reduce((sum, key) => sum + probabilities[key], 0);
+
+  return keys.reduce((normalized, key) => {
+    normalized[key] = total > 0 ? probabilities[key] / total : 1 / keys.length;
+    return normalized;
+  }, {} as Record<K, number>);
+}
+
+/**
+ * Whether an outcome of a book is certain. A certain outcome has no fair price
+ * to round down from - even MIN_ODDS would be a guaranteed profit - so the
+ * market is decided and comes off the board.
+ */
+export function isDecided(probabilities: Record<string, number>): boolean {
+  return Object.values(normalizeProbabilities(probabilities)).some(probability => probability >= 1);
+}
+
+export function probabilityToOdds(probability: number, margin: number = HOUSE_MARGIN): number {
+  if (probability <= 0) return MAX_ODDS;
+
+  const odds = Math.floor(100 / (probability * (1 + margin))) / 100;
+  return Math.min(MAX_ODDS, Math.max(MIN_ODDS, odds));
+}
+
+/**
+ * Price a market from its outcome probabilities.
+ */
+export function priceMarket<K extends string>(probabilities: Record<K, number>, margin: number = HOUSE_MARGIN): Record<K, number> {
+  const normalized = normalizeProbabilities(probabilities);
+  const keys = Object.keys(normalized) as K[];
+
+  return keys.reduce((odds, key) => {
+    odds[key] = probabilityToOdds(normalized[key], margin);
+    return odds;
+  }, {} as Record<K, number>);
+}
+
+/**
+ * Sum of the implied probabilities of a book, e.g. 1.05 for a 5% margin.
+ */
+export function getOverround(odds: Record<string, number>): number {
+  return Object.values(odds).reduce((sum, price) => sum + 1 / price, 0);
+}
+
+/**
+ * Implied probabilities of a book with the margin taken out.
+ */
+export function getImpliedProbabilities<K extends string>(odds: Record<K, number>): Record<K, number> {
+  const keys = Object.keys(odds) as K[];
+  return normalizeProbabilities(keys.reduce((probabilities, key) => {
+    probabilities[key] = 1 / odds[key];
+    return probabilities;
+  }, {} as Record<K, number>));
+}
+
+/**
+ * Combined price of independent selections (accumulator legs).
+ */
+export function combineOdds(odds: number[]): number {
+  return Math.round(odds.reduce((combined, price) => combined * price, 1) * 100) / 100;
+}
+
+const poisson = (lambda: number, goals: number): number => {
+  let probability = Math.exp(-lambda);
+  for (let i = 1; i <= goals; i++) {
+    probability *= lambda / i;
+  }
+  return probability;
+};
+
+// Scorelines beyond this are too unlikely to matter for pricing
+const MAX_GOALS = 10;
+
+/**
+ * Chance of each number of goals each side scores in the rest of the match:
+ * `[homeGoals][awayGoals]`, up to MAX_GOALS each.
+ */
+export function getScoreProbabilities({ home, away }: ExpectedGoals): number[][] {
+  return Array.from({ length: MAX_GOALS + 1 }, (_, homeGoals) =>
+    Array.from({ length: MAX_GOALS + 1 }, (_, awayGoals) => poisson(home, homeGoals) * poisson(away, awayGoals))
+  );
+}
+
+/**
+ * Home/draw/away probabilities for the rest of a match, treating each side's
+ * remaining goals as an independent Poisson variable. `scoreDifference` is the
+ * current home lead (negative when the away side is ahead).
+ */
+export function getResultProbabilities(
+  { home, away }: ExpectedGoals,
+  scoreDifference: number = 0
+): { home: number; draw: number; away: number } {
+  let homeWin = 0;
+  let draw = 0;
+  let awayWin = 0;
+
+  for (let homeGoals = 0; homeGoals <= MAX_GOALS; homeGoals++) {
+    for (let awayGoals = 0; awayGoals <= MAX_GOALS; awayGoals++) {
+      const probability = poisson(home, homeGoals) * poisson(away, awayGoals);
+      const finalDifference = scoreDifference + homeGoals - awayGoals;
+      if (finalDifference > 0) homeWin += probability;
+      else if (finalDifference === 0) draw += probability;
+      else awayWin += probability;
+    }
+  }
+
+  return normalizeProbabilities({ home: homeWin, draw, away: awayWin });
+}
+
+/**
+ * Chance that a match finishes over a total-goals line, given the goals
+ * already scored. Both sides' remaining goals are Poisson, so their sum is too.
+ */
+export function getTotalGoalsProbabilities(
+  { home, away }: ExpectedGoals,
+  goalsScored: number,
+  line: number
+): { over: number; under: number } {
+  const remaining = home + away;
+  let under = 0;
+
+  // Under wins while the total stays below the line
+  for (let goals = 0; goalsScored + goals < line && goals <= MAX_GOALS * 2; goals++) {
+    under += poisson(remaining, goals);
+  }
+
+  return normalizeProbabilities({ over: 1 - under, under });
+}
@@ -0,0 +1,101 @@
+import { TEAMS } from './teamRatings';
+
+/**
+ * Club squads.
+ *
+ * Every club lines up in a 4-3-3 with a named starting XI. A player's position
+ * decides how often the engine picks them to score, assist or be booked, and
+ * the goalscorer markets are priced from the same weights.
+ */
+
+export type PlayerPosition = 'GK' | 'DEF' | 'MID' | 'FWD';
+
+// Club and shirt number, e.g. 'Arsenal#9'
+export type PlayerId = `${string}#${number}`;
+
+export interface Player {
+  id: PlayerId;
+  name: string;
+  number: number;
+  position: PlayerPosition;
+  team: string;
+}
+
+// How much of a side's goals, assists and bookings each position accounts for, per player
+export const POSITION_WEIGHTS: Record<PlayerPosition, { goal: number; assist: number; card: number }> = {
+  GK: { goal: 0.005, assist: 0.02, card: 0.03 },
+  DEF: { goal: 0.05, assist: 0.08, card: 0.14 },
+  MID: { goal: 0.1, assist: 0.16, card: 0.12 },
+  FWD: { goal: 0.2, assist: 0.1, card: 0.05 }
+};
+
+// Shirt numbers by slot: keeper, back four, midfield three, front three
+const FORMATION: [number, PlayerPosition][] = [
+  [1, 'GK'],
+  [2, 'DEF'], [4, 'DEF'], [5, 'DEF'], [3, 'DEF'],
+  [6, 'MID'], [8, 'MID'], [10, 'MID'],
+  [7, 'FWD'], [9, 'FWD'], [11, 'FWD']
+];
+
+export const SQUAD_SIZE = FORMATION.length;
+
+// Starting XIs, in FORMATION order
+const LINEUPS: Record<string, string[]> = {
+  'Arsenal': ['Rhys Calder', 'Ben Whitlock', 'Marcus Adebayo', 'Tomás Ferreira', 'Jamie Holt', 'Declan Morrow', 'Kai Lindqvist', 'Oscar Pembridge', 'Jaden Okafor', 'Gabriel Nunes', 'Leon Achebe'],
+  'Chelsea': ['Simon Ekwueme', 'Reece Danby', 'Theo Marchant', 'Liam Carver', 'Callum Reyes', 'Enzo Varela', 'Nathan Osei', 'Cole Pallister', 'Noah Matthews', 'Nico Jordan', 'Ethan Brightwell'],
+  'Liverpool': ['Fábio Brandão', 'Connor Alder', 'Joost Dekker', 'Ibrahim Sarr', 'Andrew Kerr', 'Alexis Carrizo', 'Dominik Szabo', 'Curtis Bland', 'Karim Mansour', 'Diego Nuñera', 'Luis Arango'],
+  'Man City': ['Eduardo Moraes', 'Kyle Walden', 'Rui Teixeira', 'John Stonehouse', 'Josip Gradić', 'Rodrigo Hernando', 'Pieter Vermeulen', 'Bernardo Salgado', 'Phil Hartley', 'Eirik Solbakken', 'Jérémy Mensah'],
+  'Man United': ['André Obi', 'Diego Dalto', 'Lisandro Marín', 'Harry McGuinness', 'Luke Shawcross', 'Carlos Lopes', 'Kobe Mainwaring', 'Bruno Fontes', 'Alejandro Ruiz', 'Rasmus Højgaard', 'Marcus Ashworth'],
+  'Tottenham': ['Guido Vecchi', 'Pedro Porras', 'Cristian Romero-Díaz', 'Mick van der Velde', 'Destiny Udoka', 'Yves Bamba', 'Pape Diallo', 'James Maddock', 'Dejan Kovač', 'Dominic Solan', 'Park Ji-ho'],
+  'Barcelona': ['Marc Estévez', 'Jules Kounta', 'Ronald Aguirre', 'Pau Cubells', 'Àlex Soler', 'Frank de Graaf', 'Pedro Galindo', 'Pablo Gavira', 'Yassine Amrani', 'Roberto Lewicki', 'Rafael Dias'],
+  'Real Madrid': ['Iker Salvatierra', 'Daniel Carrasco', 'Hugo Benavides', 'Éder Miranda', 'Ferland Lopes', 'Aurélien Tchami', 'Mateo Sosa', 'Judd Bellamy-Price', 'Rodrigo Goes', 'Kylian Mbaye-Touré', 'Vinícius Araújo'],
+  'Bayern Munich': ['Matthias Reuter', 'Jonas Albrecht', 'Dayo Mensah', 'Kim Do-hyun', 'Lukas Brenner', 'Felix Hartmann', 'Jannik Vogt', 'Tobias Lindner', 'Moritz Kessler', 'Henry Castell', 'Niklas Oduya'],
+  'PSG': ['Gianluca Berti', 'Achraf Alaoui', 'Marcos Aoás', 'Lucas Pons', 'Nuno Couto', 'Vítor Ferreira', 'João Sá', 'Warren Zaïre', 'Ousmane Cissé', 'Gonçalo Pinto', 'Bradley Diop'],
+  'Juventus': ['Michele Gregori', 'Andrea Cambiasi', 'Gleison Costa', 'Federico Gattuso-Neri', 'Danilo Reis', 'Manuel Rossi', 'Weston McKenzie', 'Adrien Rabier', 'Federico Neri', 'Dušan Perić', 'Kenan Yavuz'],
+  'AC Milan': ['Mike Maignon', 'Davide Calabrò', 'Fikayo Tomiwa', 'Matteo Conti', 'Théo Marin', 'Tijs Reinders', 'Ruben Loft', 'Christian Pulić', 'Samuel Chukwu', 'Olivier Girardot', 'Rafael Leal'],
+  'Borussia Dortmund': ['Gregor Kobler', 'Julian Dahl', 'Nico Schlotter', 'Mats Hummer', 'Ian Maassen', 'Emre Canbaz', 'Marcel Sabitz', 'Julian Brandtner', 'Jadon Sanders', 'Niclas Beck', 'Karim Shola'],
+  'Atletico Madrid': ['Jan Oblakov', 'Nahuel Molinari', 'José Vera', 'Mario Hermosilla', 'Reinaldo Mandava', 'Rodrigo Sanz', 'Jorge Resurrección', 'Marcos Gil', 'Antoine Griezeau', 'Álvaro Peña', 'Samuel Barros'],
+  'Inter Milan': ['Yann Sommerhalder', 'Benjamin Pavot', 'Francesco Acerbo', 'Alessandro Bastiani', 'Federico Leone', 'Hakan Çalışkan', 'Nicolò Lupo', 'Henrik Mkrtchyan', 'Denzel Dumont', 'Lautaro Martel', 'Marcus Thurin-Blanc'],
+  'Ajax': ['Remko Pasman', 'Devyne Rensing', 'Jorrel Hatoum', 'Josip Šutić', 'Owen Wijnberg', 'Kenneth Taal', 'Jordan Hendriks', 'Branco van den Broek', 'Steven Vos', 'Brian Brobbel', 'Carlos Forbes']
+};
+
+function buildSquad(team: string, names: string[]): Player[] {
+  return FORMATION.map(([number, position], index) => ({
+    id: `${team}#${number}`,
+    name: names[index] ?? `${team} #${number}`,
+    number,
+    position,
+    team
+  }));
+}
+
+export const SQUADS: Record<string, Player[]> = Object.fromEntries(
+  TEAMS.map(team => [team, buildSquad(team, LINEUPS[team] ?? [])])
+);
+
+/**
+ * A club's starting XI. Clubs without a listed lineup field numbered players.
+ */
+export function getSquad(team: string): Player[] {
+  return SQUADS[team] ?? buildSquad(team, []);
+}
+
+export function getPlayer(id: PlayerId): Player | null {
+  const [team, number] = id.split('#');
+  return getSquad(team).find(player => player.number === Number(number)) ?? null;
+}
+
+export function getPlayerName(id: PlayerId | undefined): string {
+  return (id && getPlayer(id)?.name) ?? 'Unknown player';
+}
+
+/**
+ * Each player's share of their side's goals (or assists, or bookings).
+ */
+export function getPlayerShares(
+  squad: Player[],
+  kind: keyof typeof POSITION_WEIGHTS[PlayerPosition]
+): { player: Player; share: number }[] {
+  const total = squad.reduce((sum, player) => sum + POSITION_WEIGHTS[player.position][kind], 0);
+  return squad.map(player => ({ player, share: POSITION_WEIGHTS[player.position][kind] / total }));
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { BetLeg } from '../../App';
+import { createLedgerEntry, postLedgerEntries } from './walletLedger';
+import { SystemBetType, createSystemBet, expandSystemBet, getSystemBet } from './systemBets';
+
+const createLegs = (count: number): BetLeg[] =>
+  Array.from({ length: count }, (_, index) => ({
+    matchId: `match-${index}`,
+    homeTeam: `Home ${index}`,
+    awayTeam: `Away ${index}`,
+    outcome: 'home',
+    odds: 2 + index / 10
+  }));
+
+describe('expandSystemBet', () => {
+  it.each<[SystemBetType, number]>([
+    ['trixie', 4],
+    ['patent', 7],
+    ['yankee', 11],
+    ['lucky-15', 15],
+    ['super-yankee', 26],
+    ['lucky-31', 31]
+  ])('expands a %s into %i lines', (type, lineCount) => {
+    const lines = expandSystemBet(createLegs(getSystemBet(type).selections), type);
+
+    expect(lines).toHaveLength(lineCount);
+    expect(new Set(lines.map(line => line.map(leg => leg.matchId).join())).size).toBe(lineCount);
+  });
+
+  it('lists the smallest folds first', () => {
+    const folds = expandSystemBet(createLegs(3), 'patent').map(line => line.length);
+    expect(folds).toEqual([1, 1, 1, 2, 2, 2, 3]);
+  });
+});
+
+describe('createSystemBet', () => {
+  it('stakes every line and debits the total from the wallet', () => {
+    const { systemBet, lineBets } = createSystemBet(createLegs(4), 'yankee', 10);
+
+    expect(lineBets).toHaveLength(11);
+    expect(lineBets.every(bet => bet.amount === 10 && bet.parentId === systemBet.id)).toBe(true);
+    expect(systemBet.amount).toBe(110);
+    expect(systemBet.outcome).toBe('Yankee (11 lines)');
+
+    const opening = postLedgerEntries([], [createLedgerEntry('opening-balance', 1000, 'Opening balance')]);
+    const { wallet } = postLedgerEntries(opening.ledger, lineBets.map(bet =>
+      createLedgerEntry('stake', bet.amount, bet.outcome, bet.id)
+    ));
+    expect(wallet).toBe(890);
+  });
+
+  it('prices each line on the combined odds of its legs', () => {
+    const { lineBets } = createSystemBet(createLegs(3), 'trixie', 5);
+
+    expect(lineBets.map(bet => bet.odds)).toEqual([2 * 2.1, 2 * 2.2, 2.1 * 2.2, 2 * 2.1 * 2.2].map(odds =>
+      Math.round(odds * 100) / 100
+    ));
+  });
+});
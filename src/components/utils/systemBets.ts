@@ -0,0 +1,100 @@
+import { Bet, BetLeg } from '../../App';
+import { combineOdds } from './pricing';
+
+/**
+ * Full-cover system bets. A system bet expands a set of selections from
+ * different matches into every combination of a minimum size and up - e.g. a
+ * Trixie on three selections is the three doubles plus the treble. Each line
+ * is stored as its own accumulator bet linked to the system bet.
+ */
+
+export type SystemBetType = 'trixie' | 'patent' | 'yankee' | 'lucky-15' | 'super-yankee' | 'lucky-31';
+
+export interface SystemBetDefinition {
+  type: SystemBetType;
+  name: string;
+  selections: number;
+  minFold: number; // Smallest line included - 1 adds the singles
+}
+
+export const SYSTEM_BETS: SystemBetDefinition[] = [
+  { type: 'trixie', name: 'Trixie', selections: 3, minFold: 2 },
+  { type: 'patent', name: 'Patent', selections: 3, minFold: 1 },
+  { type: 'yankee', name: 'Yankee', selections: 4, minFold: 2 },
+  { type: 'lucky-15', name: 'Lucky 15', selections: 4, minFold: 1 },
+  { type: 'super-yankee', name: 'Super Yankee', selections: 5, minFold: 2 },
+  { type: 'lucky-31', name: 'Lucky 31', selections: 5, minFold: 1 }
+];
+
+export function getSystemBet(type: SystemBetType): SystemBetDefinition {
+  return SYSTEM_BETS.find(definition => definition.type === type)!;
+}
+
+export function getAvailableSystemBets(selectionCount: number): SystemBetDefinition[] {
+  return SYSTEM_BETS.filter(definition => definition.selections === selectionCount);
+}
+
+function getCombinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  if (items.length < size) return [];
+
+  const [first, ...rest] = items;
+  return [
+    ...getCombinations(rest, size - 1).map(combination => [first, ...combination]),
+    ...getCombinations(rest, size)
+  ];
+}
+
+/**
+ * Every line of a system bet, smallest folds first.
+ */
+export function expandSystemBet(legs: BetLeg[], type: SystemBetType): BetLeg[][] {
+  const { minFold } = getSystemBet(type);
+  const lines: BetLeg[][] = [];
+
+  for (let fold = minFold; fold <= legs.length; fold++) {
+    lines.push(...getCombinations(legs, fold));
+  }
+
+  return lines;
+}
+
+/**
+ * A system bet and its lines, each line staked at `stake`. The system bet
+ * carries the total stake; amount x odds is its maximum return.
+ */
+export function createSystemBet(legs: BetLeg[], type: SystemBetType, stake: number): { systemBet: Bet; lineBets: Bet[] } {
+  const lines = expandSystemBet(legs, type);
+  const parentId = Date.now().toString() + Math.random();
+  const lineBets: Bet[] = lines.map((lineLegs, index) => ({
+    id: `${parentId}-${index}`,
+    type: 'accumulator',
+    outcome: getFoldName(lineLegs.length),
+    odds: combineOdds(lineLegs.map(leg => leg.odds)),
+    amount: stake,
+    timestamp: Date.now(),
+    legs: lineLegs,
+    parentId
+  }));
+
+  const systemBet: Bet = {
+    id: parentId,
+    type: 'system',
+    systemType: type,
+    outcome: `${getSystemBet(type).name} (${lines.length} lines)`,
+    odds: Math.round(lineBets.reduce((sum, bet) => sum + bet.odds, 0) / lines.length * 100) / 100,
+    amount: stake * lines.length,
+    timestamp: Date.now()
+  };
+
+  return { systemBet, lineBets };
+}
+
+export function getFoldName(fold: number): string {
+  switch (fold) {
+    case 1: return 'Single';
+    case 2: return 'Double';
+    case 3: return 'Treble';
+    default: return `${fold}-fold`;
+  }
+}
@@ -0,0 +1,87 @@
+import { getResultProbabilities, priceMarket } from './pricing';
+
+/**
+ * Team strength model.
+ *
+ * Each club has an attack and a defence rating relative to an average side
+ * (1.0), plus how much it gets out of playing at home. Expected goals for a
+ * fixture come from these, and both the opening prices and the engine's
+ * scoring rates are derived from the expected goals. The ratings below are
+ * each club's starting point; a league season moves its own copy with results.
+ */
+
+export interface TeamRating {
+  attack: number;
+  defence: number;
+  homeAdvantage: number;
+}
+
+export interface ExpectedGoals {
+  home: number;
+  away: number;
+}
+
+// Goals an average side scores against an average side on neutral ground
+export const LEAGUE_AVERAGE_GOALS = 1.25;
+
+const AVERAGE_RATING: TeamRating = { attack: 1, defence: 1, homeAdvantage: 1.2 };
+
+export const TEAM_RATINGS: Record<string, TeamRating> = {
+  'Arsenal': { attack: 1.2, defence: 1.25, homeAdvantage: 1.2 },
+  'Chelsea': { attack: 1.05, defence: 1.05, homeAdvantage: 1.15 },
+  'Liverpool': { attack: 1.35, defence: 1.2, homeAdvantage: 1.3 },
+  'Man City': { attack: 1.4, defence: 1.3, homeAdvantage: 1.15 },
+  'Man United': { attack: 0.95, defence: 0.95, homeAdvantage: 1.2 },
+  'Tottenham': { attack: 1.1, defence: 0.85, homeAdvantage: 1.15 },
+  'Barcelona': { attack: 1.35, defence: 1.05, homeAdvantage: 1.25 },
+  'Real Madrid': { attack: 1.4, defence: 1.2, homeAdvantage: 1.25 },
+  'Bayern Munich': { attack: 1.45, defence: 1.1, homeAdvantage: 1.2 },
+  'PSG': { attack: 1.3, defence: 1.05, homeAdvantage: 1.2 },
+  'Juventus': { attack: 0.95, defence: 1.2, homeAdvantage: 1.2 },
+  'AC Milan': { attack: 1.0, defence: 1.0, homeAdvantage: 1.2 },
+  'Borussia Dortmund': { attack: 1.2, defence: 0.9, homeAdvantage: 1.35 },
+  'Atletico Madrid': { attack: 0.95, defence: 1.25, homeAdvantage: 1.25 },
+  'Inter Milan': { attack: 1.15, defence: 1.2, homeAdvantage: 1.2 },
+  'Ajax': { attack: 1.0, defence: 0.85, homeAdvantage: 1.25 }
+};
+
+export const TEAMS = Object.keys(TEAM_RATINGS);
+
+export function getTeamRating(team: string, ratings: Record<string, TeamRating> = TEAM_RATINGS): TeamRating {
+  return ratings[team] ?? AVERAGE_RATING;
+}
+
+/**
+ * Expected goals over 90 minutes for each side of a fixture. A strong defence
+ * (rating above 1) reduces what the opposition is expected to score.
+ */
+export function getExpectedGoals(
+  homeTeam: string,
+  awayTeam: string,
+  ratings: Record<string, TeamRating> = TEAM_RATINGS
+): ExpectedGoals {
+  const home = getTeamRating(homeTeam, ratings);
+  const away = getTeamRating(awayTeam, ratings);
+
+  return {
+    home: LEAGUE_AVERAGE_GOALS * home.attack / away.defence * home.homeAdvantage,
+    away: LEAGUE_AVERAGE_GOALS * away.attack / home.defence
+  };
+}
+
+/**
+ * Opening 1X2 prices for a fixture, straight from the ratings.
+ */
+export function getOpeningOdds(
+  homeTeam: string,
+  awayTeam: string,
+  ratings: Record<string, TeamRating> = TEAM_RATINGS
+): { homeOdds: number; drawOdds: number; awayOdds: number } {
+  const odds = priceMarket(getResultProbabilities(getExpectedGoals(homeTeam, awayTeam, ratings)));
+
+  return {
+    homeOdds: odds.home,
+    drawOdds: odds.draw,
+    awayOdds: odds.away
+  };
+}
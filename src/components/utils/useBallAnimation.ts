@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { MatchEngineState } from './matchEngine';
+import { BallPosition, KICK_OFF } from './pitchPositions';
+
+// Share of a one-second tick the ball takes to run through its path
+const PATH_DURATION_MS = 800;
+const TRAIL_LENGTH = 5;
+
+// The pitch's markings are drawn on a 160x100 box, with the playing area inset
+const FIELD = { left: 5, top: 10, width: 150, height: 80, boxWidth: 160, boxHeight: 100 };
+
+/**
+ * CSS position of a point on the pitch, as percentages of the pitch element.
+ */
+export function getPitchOffset({ x, y }: Pick<BallPosition, 'x' | 'y'>): { left: string; top: string } {
+  return {
+    left: `${(FIELD.left + x / 100 * FIELD.width) / FIELD.boxWidth * 100}%`,
+    top: `${(FIELD.top + y / 100 * FIELD.height) / FIELD.boxHeight * 100}%`
+  };
+}
+
+/**
+ * Steps the ball through the path the engine laid out for the latest tick,
+ * keeping a short trail behind it.
+ */
+export function useBallAnimation(matchEngine: MatchEngineState | null) {
+  const [ball, setBall] = useState<BallPosition>(matchEngine?.ball ?? KICK_OFF);
+  const [trail, setTrail] = useState<(BallPosition & { id: string })[]>([]);
+  const path = matchEngine?.ballPath;
+
+  useEffect(() => {
+    if (!path) return;
+
+    const timeouts = path.map((position, index) => setTimeout(() => {
+      setBall(position);
+      setTrail(prev => [...prev, { ...position, id: `${Date.now()}-${index}` }].slice(-TRAIL_LENGTH));
+    }, index * PATH_DURATION_MS / path.length));
+
+    return () => timeouts.forEach(clearTimeout);
+  }, [path]);
+
+  return {
+    ball,
+    trail,
+    // How hard the side on the ball is pushing
+    attackIntensity: matchEngine?.pressure[ball.team] ?? 0
+  };
+}
@@ -0,0 +1,196 @@
+import { useState, useEffect, useCallback } from 'react';
+import { GameState, GameStateUpdate, MatchData } from '../../App';
+import {
+  BetResult,
+  getReturnResult,
+  getSettlementPayout,
+  isWinningResult,
+  settleAccumulatorLeg,
+  settleMatchResultBets
+} from './betSettlement';
+import { getBetSelection, getSelectionLabel } from './matchMarkets';
+import { getCupWinner } from './cupCompetition';
+
+export interface SettlementNotification {
+  id: string;
+  title: string;
+  description: string;
+  payout: number;
+  result: BetResult;
+}
+
+const formatScore = (match: MatchData) =>
+  `${match.homeTeam} ${match.homeScore}-${match.awayScore} ${match.awayTeam}`;
+
+const BET_TITLES: Record<BetResult, string> = {
+  'won': 'Bet won!',
+  'half-won': 'Bet half won',
+  'push': 'Bet pushed',
+  'void': 'Bet void',
+  'half-lost': 'Bet half lost',
+  'lost': 'Bet lost'
+};
+
+const ACCUMULATOR_TITLES: Record<BetResult, string> = {
+  'won': 'Accumulator won!',
+  'half-won': 'Accumulator half won',
+  'push': 'Accumulator pushed',
+  'void': 'Accumulator void',
+  'half-lost': 'Accumulator half lost',
+  'lost': 'Accumulator lost'
+};
+
+const SYSTEM_TITLES: Record<BetResult, string> = {
+  'won': 'System bet won!',
+  'half-won': 'System bet half won',
+  'push': 'System bet returned its stake',
+  'void': 'System bet void',
+  'half-lost': 'System bet returned less than staked',
+  'lost': 'System bet lost'
+};
+
+/**
+ * Follows every match the user holds lobby bets or accumulator legs on -
+ * background lobby matches, cup ties, league fixtures and the joined match -
+ * and settles those bets at full time, along with in-play bets on a match the
+ * user left for the lobby. System bets settle with their last line, outright
+ * bets once the cup has been won.
+ */
+export function useBetSettlement(
+  gameState: GameState,
+  updateGameState: (updates: GameStateUpdate) => void,
+  resolveBet: (betId: string, result: BetResult, payout?: number) => void
+) {
+  const [notifications, setNotifications] = useState<SettlementNotification[]>([]);
+
+  const dismissNotification = useCallback((id: string) => {
+    setNotifications(prev => prev.filter(notification => notification.id !== id));
+  }, []);
+
+  const notify = useCallback((notification: SettlementNotification) => {
+    setNotifications(prev => [...prev, notification]);
+    // Auto-dismiss after a few seconds
+    setTimeout(() => dismissNotification(notification.id), 5000);
+  }, [dismissNotification]);
+
+  // Record a match's result on every open accumulator with a leg on it; a voided match voids its legs
+  const settleAccumulators = useCallback((match: MatchData, voided: boolean = false) => {
+    gameState.activeBets
+      .filter(bet =>
+        bet.type === 'accumulator' && !bet.resolved &&
+        bet.legs?.some(leg => leg.matchId === match.id && !leg.result)
+      )
+      .forEach(bet => {
+        const { legs, settlement } = settleAccumulatorLeg(bet, match.id, voided ? 'void' : match);
+
+        updateGameState(prev => ({
+          activeBets: prev.activeBets.map(activeBet => activeBet.id === bet.id ? { ...activeBet, legs } : activeBet)
+        }));
+
+        if (!settlement) return;
+
+        resolveBet(bet.id, settlement.result, settlement.payout);
+
+        // System bet lines are reported together once the whole system bet settles
+        if (bet.parentId) return;
+
+        notify({
+          id: bet.id,
+          title: ACCUMULATOR_TITLES[settlement.result],
+          description: voided
+            ? `${match.homeTeam} v ${match.awayTeam} • stake returned`
+            : `${legs.length}-fold • ${formatScore(match)}`,
+          payout: settlement.payout,
+          result: settlement.result
+        });
+      });
+  }, [gameState.activeBets, updateGameState, resolveBet, notify]);
+
+  // Settle the lobby bets, accumulator legs and, with `inPlay`, the in-play bets on a finished match
+  const settleMatchBets = useCallback((match: MatchData, inPlay: boolean) => {
+    const settlements = settleMatchResultBets(
+      gameState.activeBets.filter(bet =>
+        bet.matchId === match.id && (bet.type === 'lobby' || (bet.type === 'full-match' && inPlay))
+      ),
+      match
+    );
+
+    settlements.forEach(({ bet, result, payout }) => {
+      resolveBet(bet.id, result, payout);
+      notify({
+        id: bet.id,
+        title: BET_TITLES[result],
+        description: `${getSelectionLabel(getBetSelection(bet), match)} • ${formatScore(match)}`,
+        payout,
+        result
+      });
+    });
+
+    settleAccumulators(match);
+  }, [gameState.activeBets, resolveBet, notify, settleAccumulators]);
+
+  const { lobbyMatches, currentMatch, cup, season, activeBets } = gameState;
+
+  useEffect(() => {
+    const finishedMatches = [
+      ...lobbyMatches,
+      ...(cup?.rounds.flat() ?? []),
+      ...season.matchdays.flat(),
+      ...(currentMatch ? [currentMatch] : [])
+    ]
+      .filter(match => match.status === 'finished');
+
+    // In-play bets on the joined match are settled by the match itself
+    finishedMatches.forEach(match => settleMatchBets(match, match.id !== currentMatch?.id));
+
+    const cupWinner = cup && getCupWinner(cup);
+    if (cup && cupWinner) {
+      activeBets
+        .filter(bet => bet.type === 'outright' && bet.cupId === cup.id && !bet.resolved)
+        .forEach(bet => {
+          const result: BetResult = bet.outcome === cupWinner ? 'won' : 'lost';
+          const payout = getSettlementPayout(bet, result);
+          resolveBet(bet.id, result, payout);
+          notify({
+            id: bet.id,
+            title: BET_TITLES[result],
+            description: `Cup winner • ${bet.outcome} • ${cupWinner} lift the cup`,
+            payout,
+            result
+          });
+        });
+    }
+
+    // A system bet is settled once every one of its lines is; the lines carry the money
+    activeBets
+      .filter(bet => bet.type === 'system' && !bet.resolved)
+      .forEach(systemBet => {
+        const lines = activeBets.filter(bet => bet.parentId === systemBet.id);
+        if (lines.length === 0 || lines.some(line => !line.resolved)) return;
+
+        const payout = lines.reduce((sum, line) => sum + (line.payout || 0), 0);
+        const result = getReturnResult(payout, systemBet.amount);
+        updateGameState(prev => ({
+          activeBets: prev.activeBets.map(bet =>
+            bet.id === systemBet.id ? { ...bet, resolved: true, won: isWinningResult(result), result, payout } : bet
+          )
+        }));
+
+        notify({
+          id: systemBet.id,
+          title: SYSTEM_TITLES[result],
+          description: `${systemBet.outcome} • ${lines.filter(line => (line.payout || 0) > line.amount).length} winning lines`,
+          payout,
+          result
+        });
+      });
+  }, [lobbyMatches, currentMatch, cup, season, activeBets, updateGameState, resolveBet, notify, settleMatchBets]);
+
+  return {
+    notifications,
+    notify,
+    dismissNotification,
+    settleAccumulators,
+    settleMatchBets
+  };
+}
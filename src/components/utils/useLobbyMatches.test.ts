@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { Bet, GameState, MatchData } from '../../App';
+import { TICK_MS, createMatchEngine, getMatchUpdate, simulateMatch, stepMatch } from './matchEngine';
+import { hasOpenBetsOnMatch, settleMatchResultBets } from './betSettlement';
+import { advanceLobbyMatches, generateRandomMatch, joinMatch, leaveMatch } from './useLobbyMatches';
+
+// Long enough for any break in play to be over by the next advance
+const STEP_MS = 10000;
+
+const createBet = (match: MatchData, bet: Pick<Bet, 'id' | 'type' | 'outcome'>): Bet => ({
+  ...bet,
+  marketId: 'match-result',
+  odds: 2,
+  amount: 10,
+  timestamp: 0,
+  matchId: match.id,
+  homeTeam: match.homeTeam,
+  awayTeam: match.awayTeam
+});
+
+const createState = (state: Partial<GameState>): GameState => ({
+  lobbyMatches: [],
+  lobbyEngines: {},
+  activeBets: [],
+  currentMatch: null,
+  matchEngine: null,
+  matchEvents: [],
+  ...state
+}) as GameState;
+
+describe('advanceLobbyMatches', () => {
+  it('gives the same lobby for the same time and seed', () => {
+    const now = Date.now();
+    const state = createState({
+      lobbyMatches: [
+        { ...generateRandomMatch(true), startTime: now - 20 * TICK_MS },
+        { ...generateRandomMatch(false), startTime: now + 60000 }
+      ]
+    });
+
+    expect(advanceLobbyMatches(state, now, 99)).toEqual(advanceLobbyMatches(state, now, 99));
+  });
+
+  it('catches up on every tick missed since the last advance', () => {
+    const now = Date.now();
+    const match: MatchData = { ...generateRandomMatch(true), status: 'live' };
+    const engine = createMatchEngine(match, 5);
+    const state = createState({
+      lobbyMatches: [match],
+      lobbyEngines: { [match.id]: { engine, events: [], nextTickAt: now - 20 * TICK_MS } }
+    });
+
+    const { lobbyEngines, lobbyMatches } = advanceLobbyMatches(state, now, 1);
+    const caughtUp = simulateMatch(engine, 21).state;
+    expect(lobbyEngines[match.id].engine).toEqual(caughtUp);
+    expect(lobbyEngines[match.id].nextTickAt).toBe(now + TICK_MS);
+    expect(lobbyMatches[0]).toMatchObject(getMatchUpdate(caughtUp));
+  });
+
+  it('waits out a break in play before the next tick', () => {
+    const now = Date.now();
+    const match: MatchData = { ...generateRandomMatch(true), status: 'live' };
+    let engine = createMatchEngine(match, 5);
+    while (stepMatch(engine).state.period !== 'half-time') {
+      engine = stepMatch(engine).state;
+    }
+    const state = createState({
+      lobbyMatches: [match],
+      lobbyEngines: { [match.id]: { engine, events: [], nextTickAt: now - 2 * TICK_MS } }
+    });
+
+    // The half-time whistle is due, but the second half is not
+    const { lobbyEngines } = advanceLobbyMatches(state, now, 1);
+    expect(lobbyEngines[match.id].engine).toEqual(stepMatch(engine).state);
+    expect(lobbyEngines[match.id].nextTickAt).toBeGreaterThan(now);
+  });
+});
+
+describe('joining and leaving a lobby match', () => {
+  it('hands the match back to the lobby, where its bets settle at full time', () => {
+    let now = Date.now();
+    const match = { ...generateRandomMatch(true), startTime: now - 30 * TICK_MS, knockout: false };
+    const bets = [
+      createBet(match, { id: 'lobby-bet', type: 'lobby', outcome: 'home' }),
+      createBet(match, { id: 'in-play-bet', type: 'full-match', outcome: 'draw' })
+    ];
+
+    // Kicked off half an hour of match time ago
+    let state = createState({ lobbyMatches: [match], activeBets: bets });
+    state = { ...state, ...advanceLobbyMatches(state, now, 1) };
+    const running = state.lobbyEngines[match.id];
+    expect(running.engine.tick).toBe(30);
+
+    // Joining picks the match up where it has got to
+    state = { ...state, ...joinMatch(state, state.lobbyMatches[0]) };
+    expect(state.matchEngine).toBe(running.engine);
+    expect(state.matchEvents).toBe(running.events);
+    expect(state.currentMatch?.homeScore).toBe(running.engine.homeScore);
+    expect(state.lobbyMatches.some(({ id }) => id === match.id)).toBe(false);
+
+    // Watch a few minutes, then leave
+    let engine = running.engine;
+    for (let minute = 0; minute < 5; minute++) {
+      engine = stepMatch(engine).state;
+    }
+    state = { ...state, matchEngine: engine };
+    state = { ...state, ...leaveMatch(state, now), currentMatch: null, matchEngine: null, matchEvents: [] };
+    expect(state.lobbyEngines[match.id].engine).toBe(engine);
+    expect(state.lobbyMatches.find(({ id }) => id === match.id)?.status).toBe('live');
+
+    // The lobby plays it on to full time, and keeps it while bets on it are open
+    const finalState = simulateMatch(engine).state;
+    for (let step = 0; step < 500 && state.lobbyEngines[match.id]; step++) {
+      now += STEP_MS;
+      state = { ...state, ...advanceLobbyMatches(state, now, step) };
+    }
+
+    const finished = state.lobbyMatches.find(({ id }) => id === match.id);
+    expect(finished?.status).toBe('finished');
+    expect(finished?.homeScore).toBe(finalState.homeScore);
+    expect(finished?.awayScore).toBe(finalState.awayScore);
+    expect(hasOpenBetsOnMatch(state.activeBets, match.id)).toBe(true);
+
+    const settlements = settleMatchResultBets(state.activeBets, finished!);
+    const homeWin = finalState.homeScore > finalState.awayScore;
+    const draw = finalState.homeScore === finalState.awayScore;
+    expect(settlements.map(({ bet, result }) => [bet.id, result])).toEqual([
+      ['lobby-bet', homeWin ? 'won' : 'lost'],
+      ['in-play-bet', draw ? 'won' : 'lost']
+    ]);
+  });
+});
@@ -0,0 +1,224 @@
+import { useEffect } from 'react';
+import { ActionEvent, GameState, GameStateUpdate, MatchData } from '../../App';
+import { TEAMS, getOpeningOdds } from './teamRatings';
+import { hasOpenBetsOnMatch } from './betSettlement';
+import {
+  MatchEngineState,
+  Random,
+  TICK_MS,
+  createMatchEngine,
+  createRandom,
+  createSeed,
+  getMatchUpdate,
+  getTickDelay,
+  simulateMatch,
+  stepMatch
+} from './matchEngine';
+
+// A lobby match being played in the background
+export interface LobbyMatchEngine {
+  engine: MatchEngineState;
+  events: ActionEvent[]; // The match feed so far, without betting offers nobody was there to take
+  nextTickAt: number;
+}
+
+// Share of fixtures that are cup ties, decided on the night by extra time and penalties
+const KNOCKOUT_SHARE = 0.3;
+
+export const generateRandomMatch = (
+  isLive: boolean = false,
+  random: () => number = Math.random,
+  now: number = Date.now()
+): MatchData => {
+  const homeTeam = TEAMS[Math.floor(random() * TEAMS.length)];
+  let awayTeam = TEAMS[Math.floor(random() * TEAMS.length)];
+  while (awayTeam === homeTeam) {
+    awayTeam = TEAMS[Math.floor(random() * TEAMS.length)];
+  }
+
+  // Price the fixture from the team ratings
+  const { homeOdds, drawOdds, awayOdds } = getOpeningOdds(homeTeam, awayTeam);
+  const playerCount = Math.floor(random() * 150) + 25; // 25-174 players
+
+  // Upcoming matches kick off 10-130 minutes from now; live ones kicked off up to 90 match minutes ago
+  const startTime = isLive
+    ? now - Math.floor(random() * 90) * TICK_MS
+    : now + (random() * 120 + 10) * 60000;
+
+  return {
+    id: now.toString() + random(),
+    homeTeam,
+    awayTeam,
+    homeOdds,
+    drawOdds,
+    awayOdds,
+    homeScore: 0,
+    awayScore: 0,
+    status: 'not-started',
+    timeElapsed: 0,
+    playerCount,
+    startTime,
+    knockout: random() < KNOCKOUT_SHARE
+  };
+};
+
+const withoutOffers = (events: ActionEvent[]) => events.filter(event => event.type !== 'action');
+
+/**
+ * Start a lobby match on the engine, played on by a tick for every second
+ * since it kicked off - a match that kicked off while the app was closed
+ * may already be over.
+ */
+const kickOff = (
+  match: MatchData,
+  now: number,
+  seed: number,
+  ticksPlayed: number = Math.floor((now - (match.startTime ?? now)) / TICK_MS)
+): LobbyMatchEngine => {
+  const { state, events } = simulateMatch(createMatchEngine(match, seed), ticksPlayed);
+  return { engine: state, events: withoutOffers(events), nextTickAt: now + getTickDelay(state.period) };
+};
+
+const jitterPlayers = (match: MatchData, spread: number, random: Random): MatchData => ({
+  ...match,
+  playerCount: Math.max(20, match.playerCount + Math.floor(random.next() * (spread * 2 + 1)) - spread)
+});
+
+// Play a background match on by every tick that has fallen due, breaks in play included
+const catchUp = (current: LobbyMatchEngine, now: number): LobbyMatchEngine => {
+  let { engine, events, nextTickAt } = current;
+  while (!engine.finished && now + TICK_MS / 2 >= nextTickAt) {
+    const result = stepMatch(engine);
+    engine = result.state;
+    events = [...events, ...withoutOffers(result.events)];
+    nextTickAt += getTickDelay(engine.period);
+  }
+  return { engine, events, nextTickAt };
+};
+
+/**
+ * Move the lobby on to `now`. All the randomness - player counts, engine
+ * seeds and replacement fixtures - comes from `seed`, so the same state, time
+ * and seed always give the same lobby and this is safe to run in a state
+ * updater.
+ */
+export const advanceLobbyMatches = (state: GameState, now: number, seed: number): Pick<GameState, 'lobbyMatches' | 'lobbyEngines'> => {
+  const random = createRandom(seed);
+  const nextSeed = () => Math.floor(random.next() * 4294967296);
+  const engines: Record<string, LobbyMatchEngine> = { ...state.lobbyEngines };
+
+  const advanced = state.lobbyMatches.map((match): MatchData => {
+    if (match.status === 'finished') return match;
+
+    if (match.status === 'not-started') {
+      if (match.startTime === undefined || match.startTime > now) return jitterPlayers(match, 1, random);
+
+      // Kick-off: the match goes live, and bets already placed on it stay with it
+      engines[match.id] = kickOff(match, now, nextSeed());
+      return { ...match, ...getMatchUpdate(engines[match.id].engine) };
+    }
+
+    // Live matches saved before the lobby ran on the engine pick up from their minute
+    const current = engines[match.id] ?? kickOff(match, now, nextSeed(), match.timeElapsed);
+    engines[match.id] = catchUp(current, now);
+    if (engines[match.id].engine === current.engine) return match;
+
+    return jitterPlayers({ ...match, ...getMatchUpdate(engines[match.id].engine) }, 2, random);
+  });
+
+  // Finished matches stay around until every bet on them has been settled
+  const kept = advanced.filter(match =>
+    match.status !== 'finished' || hasOpenBetsOnMatch(state.activeBets, match.id)
+  );
+
+  // Replace each match that just finished with a new upcoming fixture
+  const newlyFinished = advanced.filter((match, index) =>
+    match.status === 'finished' && state.lobbyMatches[index].status !== 'finished'
+  ).length;
+
+  return {
+    lobbyMatches: [...kept, ...Array.from({ length: newlyFinished }, () => generateRandomMatch(false, random.next, now))],
+    // Only matches still being played need their engine
+    lobbyEngines: Object.fromEntries(
+      Object.entries(engines).filter(([id]) => kept.some(match => match.id === id && match.status === 'live'))
+    )
+  };
+};
+
+/**
+ * Join a match from the lobby, league or cup. A live lobby match is joined
+ * where it has got to, with everything that has happened so far; anything
+ * else kicks off from 0-0.
+ */
+export function joinMatch(state: GameState, match: MatchData): Partial<GameState> {
+  const lobbyMatch = state.lobbyMatches.find(({ id }) => id === match.id) ?? match;
+  const running = state.lobbyEngines[match.id];
+
+  const joined: MatchData = running ? lobbyMatch : {
+    ...lobbyMatch,
+    status: 'not-started',
+    homeScore: 0,
+    awayScore: 0,
+    timeElapsed: 0
+  };
+
+  return {
+    currentMatch: joined,
+    matchEngine: running ? running.engine : createMatchEngine(joined),
+    matchEvents: running ? running.events : [],
+    lobbyMatches: state.lobbyMatches.filter(({ id }) => id !== match.id),
+    lobbyEngines: Object.fromEntries(Object.entries(state.lobbyEngines).filter(([id]) => id !== match.id)),
+    phase: 'match'
+  };
+}
+
+/**
+ * Hand the match the user is leaving before full time back to the lobby,
+ * where it plays on from where it had got to and bets on it settle as usual.
+ */
+export function leaveMatch(state: GameState, now: number): Pick<GameState, 'lobbyMatches' | 'lobbyEngines'> {
+  const { currentMatch, matchEngine, matchEvents, lobbyMatches, lobbyEngines } = state;
+  if (!currentMatch || !matchEngine || matchEngine.finished) return { lobbyMatches, lobbyEngines };
+
+  return {
+    lobbyMatches: [...lobbyMatches, { ...currentMatch, ...getMatchUpdate(matchEngine), status: 'live' }],
+    lobbyEngines: {
+      ...lobbyEngines,
+      [currentMatch.id]: { engine: matchEngine, events: withoutOffers(matchEvents), nextTickAt: now + getTickDelay(matchEngine.period) }
+    }
+  };
+}
+
+/**
+ * Keeps the lobby's matches running on the match engine in the background,
+ * whichever screen the user is on, so bets on them can be settled when they
+ * finish and a match can be joined at the minute it has got to.
+ */
+export function useLobbyMatches(updateGameState: (updates: GameStateUpdate) => void) {
+  useEffect(() => {
+    // Generate initial matches (mix of live and upcoming). Anything random is
+    // drawn out here, as React may run a state updater more than once
+    const now = Date.now();
+    const seed = createSeed();
+    const initialMatches = [
+      generateRandomMatch(true),   // Live match
+      generateRandomMatch(true),   // Live match
+      generateRandomMatch(false),  // Upcoming match
+      generateRandomMatch(false),  // Upcoming match
+      generateRandomMatch(true),   // Live match
+    ];
+    updateGameState(prev => prev.lobbyMatches.length > 0 ? {} : advanceLobbyMatches({
+      ...prev,
+      lobbyMatches: initialMatches
+    }, now, seed));
+
+    // Play the lobby's matches on at the same pace as a watched match
+    const interval = setInterval(() => {
+      const tickNow = Date.now();
+      const tickSeed = createSeed();
+      updateGameState(prev => advanceLobbyMatches(prev, tickNow, tickSeed));
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [updateGameState]);
+}
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * The current time, refreshed on an interval so countdowns keep ticking.
+ */
+export function useNow(intervalMs: number = 1000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+import { GameState } from '../../App';
+import { saveGameState } from './gameStorage';
+
+// The state changes on every engine tick, so saves are spaced out rather than made on each change
+const SAVE_INTERVAL_MS = 5000;
+
+/**
+ * Save the game every few seconds while it changes, and once more when the
+ * page is hidden or closed so nothing since the last save is lost.
+ */
+export function useSaveGameState(gameState: GameState, intervalMs: number = SAVE_INTERVAL_MS) {
+  const latest = useRef(gameState);
+  const saved = useRef<GameState | null>(null);
+
+  useEffect(() => {
+    latest.current = gameState;
+  }, [gameState]);
+
+  useEffect(() => {
+    const save = () => {
+      if (saved.current === latest.current) return;
+      saved.current = latest.current;
+      saveGameState(latest.current);
+    };
+
+    const interval = setInterval(save, intervalMs);
+    window.addEventListener('pagehide', save);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', save);
+      save();
+    };
+  }, [intervalMs]);
+}
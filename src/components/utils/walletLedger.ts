@@ -0,0 +1,117 @@
+import { Bet } from '../../App';
+import { getBetSelection, getSelectionLabel } from './matchMarkets';
+
+/**
+ * Append-only wallet ledger.
+ *
+ * Every movement of money is a transaction from one account to another, linked
+ * to the bet that caused it. The player's balance is never changed directly -
+ * it is always the sum of the ledger, so any balance can be explained entry by
+ * entry.
+ */
+
+export type LedgerAccount = 'player' | 'house';
+
+export type LedgerEntryType = 'opening-balance' | 'stake' | 'payout' | 'power-up-bonus' | 'refund' | 'cash-out';
+
+export interface LedgerEntry {
+  id: string;
+  type: LedgerEntryType;
+  from: LedgerAccount;
+  to: LedgerAccount;
+  amount: number; // Always positive; direction comes from `from`/`to`
+  betId?: string;
+  description: string;
+  timestamp: number;
+}
+
+export interface WalletReconciliation {
+  ledgerBalance: number;
+  difference: number;
+  isBalanced: boolean;
+}
+
+// Stakes go to the house, everything else is paid to the player
+const DIRECTIONS: Record<LedgerEntryType, { from: LedgerAccount; to: LedgerAccount }> = {
+  'opening-balance': { from: 'house', to: 'player' },
+  'stake': { from: 'player', to: 'house' },
+  'payout': { from: 'house', to: 'player' },
+  'power-up-bonus': { from: 'house', to: 'player' },
+  'refund': { from: 'house', to: 'player' },
+  'cash-out': { from: 'house', to: 'player' }
+};
+
+export function createLedgerEntry(
+  type: LedgerEntryType,
+  amount: number,
+  description: string,
+  betId?: string
+): LedgerEntry {
+  return {
+    id: Date.now().toString() + Math.random(),
+    type,
+    ...DIRECTIONS[type],
+    amount: Math.abs(amount),
+    ...(betId ? { betId } : {}),
+    description,
+    timestamp: Date.now()
+  };
+}
+
+/**
+ * Short human readable label for the bet behind a transaction.
+ */
+export function describeBet(bet: Bet): string {
+  if (bet.type === 'accumulator') {
+    return `${bet.legs?.length ?? 0}-fold accumulator @ ${bet.odds}`;
+  }
+
+  if (bet.type === 'outright') {
+    return `Cup winner • ${bet.outcome} @ ${bet.odds}`;
+  }
+
+  if (bet.type === 'action' || !bet.homeTeam || !bet.awayTeam) {
+    return `Action bet • ${bet.outcome}`;
+  }
+
+  return `${bet.homeTeam} v ${bet.awayTeam} • ${getSelectionLabel(getBetSelection(bet), bet)}`;
+}
+
+/**
+ * Signed effect of an entry on the player's balance.
+ */
+export function getPlayerAmount(entry: LedgerEntry): number {
+  if (entry.to === 'player' && entry.from !== 'player') return entry.amount;
+  if (entry.from === 'player' && entry.to !== 'player') return -entry.amount;
+  return 0;
+}
+
+export function getLedgerBalance(ledger: LedgerEntry[]): number {
+  return ledger.reduce((balance, entry) => balance + getPlayerAmount(entry), 0);
+}
+
+/**
+ * Append entries to the ledger and recompute the wallet from it.
+ */
+export function postLedgerEntries(ledger: LedgerEntry[], entries: LedgerEntry[]): { ledger: LedgerEntry[]; wallet: number } {
+  const nextLedger = [...ledger, ...entries];
+  return { ledger: nextLedger, wallet: getLedgerBalance(nextLedger) };
+}
+
+// Payouts are fractional, so allow for floating point noise
+const RECONCILIATION_TOLERANCE = 0.005;
+
+/**
+ * Check the displayed wallet against the ledger. A difference means something
+ * changed the balance without recording a transaction.
+ */
+export function reconcileWallet(wallet: number, ledger: LedgerEntry[]): WalletReconciliation {
+  const ledgerBalance = getLedgerBalance(ledger);
+  const difference = wallet - ledgerBalance;
+
+  return {
+    ledgerBalance,
+    difference,
+    isBalanced: Math.abs(difference) < RECONCILIATION_TOLERANCE
+  };
+}